@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { createDrawingEngine } from "../engine";
-import type { PointerInput } from "../types";
+import { BUILTIN_TOOLS } from "../tools";
+import type { EngineEvent, PointerInput } from "../types";
 
 function input(
   logical: number,
@@ -74,4 +75,936 @@ describe("drawing engine", () => {
 
     expect(engine.getState().selection.ids.length).toBeGreaterThanOrEqual(2);
   });
+
+  it("drags a single handle and undoes it in one step", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    engine.setTool("trend_line");
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(20, 90));
+    engine.pointerUp(input(20, 90));
+
+    engine.setTool("cursor");
+    engine.pointerDown(input(20, 90));
+    expect(engine.getState().interactionMode).toBe("editing-handle");
+    engine.pointerMove(input(25.4, 80));
+    engine.pointerMove(input(30.2, 70));
+    engine.pointerUp(input(30.2, 70));
+
+    const points = engine.getState().drawings[0]?.points;
+    expect(points?.[0]).toEqual({ logical: 10, price: 100 });
+    expect(points?.[1]).toEqual({ logical: 30, price: 70 });
+
+    engine.undo();
+    expect(engine.getState().drawings[0]?.points[1]).toEqual({ logical: 20, price: 90 });
+  });
+
+  it("edits rectangles from any corner", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false, objectSnap: false });
+
+    engine.setTool("rectangle");
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(20, 90));
+    engine.pointerUp(input(20, 90));
+    const id = engine.getState().drawings[0]?.id ?? "";
+    expect(engine.getHandles(id)).toEqual([
+      { logical: 10, price: 100 },
+      { logical: 20, price: 90 },
+      { logical: 10, price: 90 },
+      { logical: 20, price: 100 }
+    ]);
+
+    engine.setTool("cursor");
+    engine.pointerDown(input(20, 100));
+    expect(engine.getState().interactionMode).toBe("editing-handle");
+    engine.pointerMove(input(30, 110));
+    engine.pointerUp(input(30, 110));
+
+    expect(engine.getDrawing(id)?.points).toEqual([
+      { logical: 10, price: 110 },
+      { logical: 30, price: 90 }
+    ]);
+    engine.undo();
+    expect(engine.getDrawing(id)?.points).toEqual([
+      { logical: 10, price: 100 },
+      { logical: 20, price: 90 }
+    ]);
+
+    const rectangle = BUILTIN_TOOLS.find((tool) => tool.id === "rectangle");
+    const drawing = engine.getDrawing(id);
+    const anchored = drawing && {
+      ...drawing,
+      points: [
+        { logical: 10, price: 100, time: 1_000 },
+        { logical: 20, price: 90, time: 2_000 }
+      ]
+    };
+    expect(anchored && rectangle?.handles?.(anchored)[3]).toEqual({
+      logical: 20,
+      price: 100,
+      time: 2_000
+    });
+    expect(
+      anchored && rectangle?.moveHandle?.(anchored, 3, { logical: 30, price: 110, time: 3_000 })
+    ).toEqual([
+      { logical: 10, price: 110, time: 1_000 },
+      { logical: 30, price: 90, time: 3_000 }
+    ]);
+  });
+
+  it("does not edit handles of locked drawings", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    engine.setTool("trend_line");
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(20, 90));
+    engine.pointerUp(input(20, 90));
+    engine.setLocked(engine.getState().selection.ids, true);
+
+    engine.setTool("cursor");
+    engine.pointerDown(input(20, 90));
+    engine.pointerMove(input(30, 70));
+    engine.pointerUp(input(30, 70));
+
+    expect(engine.getState().drawings[0]?.points[1]).toEqual({ logical: 20, price: 90 });
+  });
+
+  it("lets tools override handle movement", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.registerTool({
+      id: "level_band",
+      minPoints: 2,
+      maxPoints: 2,
+      moveHandle: (entity, handleIndex, point) =>
+        entity.points.map((current, index) =>
+          index === handleIndex ? { logical: current.logical, price: point.price } : current
+        )
+    });
+
+    engine.setTool("level_band");
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(20, 90));
+    engine.pointerUp(input(20, 90));
+
+    engine.setTool("cursor");
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(40, 120));
+    engine.pointerUp(input(40, 120));
+
+    expect(engine.getState().drawings[0]?.points[0]).toEqual({ logical: 10, price: 120 });
+  });
+
+  it("uses tool hit testing, bounds and handles for registered tools", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false, objectSnap: false });
+    engine.registerTool({
+      id: "zone",
+      minPoints: 2,
+      maxPoints: 2,
+      handles: (entity) => [
+        ...entity.points,
+        { logical: entity.points[1]?.logical ?? 0, price: 200 }
+      ],
+      moveHandle: (entity, handleIndex, point) =>
+        handleIndex === 2 ? [entity.points[0] ?? point, point] : entity.points,
+      bbox: (entity) => ({
+        minLogical: entity.points[0]?.logical ?? 0,
+        maxLogical: entity.points[1]?.logical ?? 0,
+        minPrice: 100,
+        maxPrice: 200
+      }),
+      hitTest: (entity, point) =>
+        point.logical > (entity.points[0]?.logical ?? 0) &&
+        point.logical < (entity.points[1]?.logical ?? 0) &&
+        point.price > 100 &&
+        point.price < 200
+          ? { kind: "body" }
+          : null
+    });
+    const zone = engine.addDrawing({
+      tool: "zone",
+      points: [
+        { logical: 10, price: 100 },
+        { logical: 30, price: 120 }
+      ]
+    });
+
+    engine.pointerDown(input(20, 180));
+    engine.pointerUp(input(20, 180));
+    expect(engine.getState().selection.ids).toEqual([zone.id]);
+    expect(engine.getHandles(zone.id)).toHaveLength(3);
+
+    engine.pointerDown(input(30, 200));
+    engine.pointerMove(input(40, 150));
+    engine.pointerUp(input(40, 150));
+    expect(engine.getDrawing(zone.id)?.points[1]).toEqual({ logical: 40, price: 150 });
+
+    engine.clearSelection();
+    engine.pointerDown(input(0, 90));
+    engine.pointerMove(input(45, 160));
+    engine.pointerUp(input(45, 160));
+    expect(engine.getState().selection.ids).toEqual([]);
+    engine.pointerDown(input(0, 90));
+    engine.pointerMove(input(45, 210));
+    engine.pointerUp(input(45, 210));
+    expect(engine.getState().selection.ids).toEqual([zone.id]);
+  });
+
+  it("runs tool creation and key hooks with the draft", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false, objectSnap: false });
+    const mirror = (points: { logical: number; price: number }[]) => {
+      const [a, b] = points;
+      return a && b ? [a, b, { logical: b.logical, price: 2 * a.price - b.price }] : points;
+    };
+    const seen: string[] = [];
+    engine.registerTool({
+      id: "channel",
+      minPoints: 2,
+      maxPoints: 3,
+      creationMode: "drag",
+      onCreateStart: ({ draft }) => {
+        seen.push(`start:${draft.points.length}`);
+        return { metadata: { width: 1 } };
+      },
+      onCreateMove: ({ draft }) => ({ points: mirror(draft.points) }),
+      onCreateEnd: ({ draft, input }) => {
+        seen.push(`end:${input ? "pointer" : "key"}`);
+        return { points: mirror(draft.points) };
+      },
+      onKeyDown: (key, { draft }) =>
+        key.key === "w" && draft
+          ? { metadata: { width: Number(draft.metadata?.width ?? 0) + 1 } }
+          : false
+    });
+
+    engine.setTool("channel");
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(20, 90));
+    expect(engine.getState().draft?.points).toHaveLength(3);
+    engine.keyDown({ key: "w" });
+    expect(engine.getState().draft?.metadata).toEqual({ width: 2 });
+    engine.pointerUp(input(20, 90));
+
+    const created = engine.getState().drawings[0];
+    expect(created?.points[2]).toEqual({ logical: 20, price: 110 });
+    expect(created?.metadata).toEqual({ width: 2 });
+    expect(seen).toEqual(["start:1", "end:pointer"]);
+  });
+
+  it("clamps or ignores invalid points returned by tool hooks", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false, objectSnap: false });
+    let end: { logical: number; price: number }[] = [];
+    engine.registerTool({
+      id: "probe",
+      minPoints: 2,
+      maxPoints: 2,
+      onCreateEnd: ({ draft }) => ({ points: end.length > 0 ? end : draft.points })
+    });
+    const events: string[] = [];
+    engine.subscribe((event) => events.push(event.reason));
+
+    engine.setTool("probe");
+    end = [
+      { logical: 1, price: 1 },
+      { logical: 2, price: 2 },
+      { logical: 3, price: 3 }
+    ];
+    engine.pointerDown(input(10, 100));
+    engine.pointerUp(input(20, 90));
+    expect(engine.getState().drawings[0]?.points).toEqual(end.slice(0, 2));
+
+    end = [
+      { logical: Number.NaN, price: 1 },
+      { logical: 2, price: 2 }
+    ];
+    engine.pointerDown(input(30, 100));
+    engine.pointerUp(input(40, 90));
+    expect(engine.getState().drawings[1]?.points).toEqual([
+      { logical: 30, price: 100 },
+      { logical: 40, price: 90 }
+    ]);
+
+    end = [{ logical: 1, price: 1 }];
+    engine.pointerDown(input(50, 100));
+    engine.pointerMove(input(60, 90));
+    events.length = 0;
+    engine.pointerUp(input(60, 90));
+    expect(engine.getState().drawings).toHaveLength(2);
+    expect(engine.getState().draft).toBeNull();
+    expect(events).toEqual(["pointer"]);
+  });
+
+  it("exposes the drawing being created as a draft", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    engine.setTool("rectangle");
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(20, 90));
+
+    const draft = engine.getState().draft;
+    expect(draft?.tool).toBe("rectangle");
+    expect(draft?.points).toEqual([
+      { logical: 10, price: 100 },
+      { logical: 20, price: 90 }
+    ]);
+    expect(engine.getState().drawings).toHaveLength(0);
+    expect(engine.getActiveTool()).toBe("rectangle");
+    expect(engine.getInteractionMode()).toBe("creating");
+
+    engine.pointerUp(input(20, 90));
+    expect(engine.getState().draft).toBeNull();
+    expect(engine.getState().drawings[0]?.id).toBe(draft?.id);
+    expect(engine.getInteractionMode()).toBe("idle");
+    expect(engine.getSelectedIds()).toEqual([draft?.id]);
+  });
+
+  it("edits text inline and commits a single history frame", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    engine.setTool("text");
+    engine.pointerDown(input(10, 100));
+    engine.pointerUp(input(10, 100));
+
+    const id = engine.getState().drawings[0]?.id ?? "";
+    expect(engine.getState().interactionMode).toBe("editing-text");
+    expect(engine.getState().editingTextId).toBe(id);
+
+    engine.keyDown({ key: "Backspace" });
+    engine.keyDown({ key: "ArrowLeft" });
+    expect(engine.getState().drawings).toHaveLength(1);
+    expect(engine.getState().drawings[0]?.points[0]).toEqual({ logical: 10, price: 100 });
+
+    engine.updateText(id, "H");
+    engine.updateText(id, "Hi");
+    engine.keyDown({ key: "Enter" });
+
+    expect(engine.getState().interactionMode).toBe("idle");
+    expect(engine.getState().drawings[0]?.text).toBe("Hi");
+
+    engine.undo();
+    expect(engine.getState().drawings[0]?.text).toBe("Text");
+    expect(engine.getState().history.undoDepth).toBe(1);
+  });
+
+  it("enters text editing on double-click and cancels with Escape", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    engine.setTool("text");
+    engine.pointerDown(input(10, 100));
+    engine.pointerUp(input(10, 100));
+    engine.commitTextEdit();
+
+    engine.setTool("cursor");
+    engine.doubleClick(input(30, 90));
+    expect(engine.getState().interactionMode).toBe("editing-text");
+
+    const id = engine.getState().editingTextId ?? "";
+    engine.updateText(id, "Draft");
+    engine.keyDown({ key: "Escape" });
+
+    expect(engine.getState().interactionMode).toBe("idle");
+    expect(engine.getState().drawings[0]?.text).toBe("Text");
+  });
+
+  it("places N-point tools click by click", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.registerTool({ id: "triangle", minPoints: 3, maxPoints: 3 });
+    engine.setTool("triangle");
+
+    engine.pointerDown(input(10, 100));
+    engine.pointerUp(input(10, 100));
+    engine.pointerMove(input(20, 120));
+    expect(engine.getState().draft?.points).toHaveLength(2);
+
+    engine.pointerDown(input(20, 120));
+    engine.pointerUp(input(20, 120));
+    expect(engine.getState().interactionMode).toBe("creating");
+    // Double-clicking before minPoints keeps the placed points.
+    engine.doubleClick(input(20, 120));
+    expect(engine.getState().interactionMode).toBe("creating");
+    expect(engine.getState().drawings).toHaveLength(0);
+
+    engine.pointerDown(input(30, 100));
+    engine.pointerUp(input(30, 100));
+
+    const drawings = engine.getState().drawings;
+    expect(drawings).toHaveLength(1);
+    expect(drawings[0]?.points).toHaveLength(3);
+    expect(engine.getState().interactionMode).toBe("idle");
+  });
+
+  it("continues drag-created tools that need more points by click", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false, objectSnap: false });
+    engine.registerTool({ id: "pitchfork", minPoints: 3, maxPoints: 3, creationMode: "drag" });
+    engine.setTool("pitchfork");
+
+    engine.pointerDown(input(10, 100));
+    engine.pointerMove(input(20, 120));
+    engine.pointerMove(input(25, 125));
+    engine.pointerUp(input(25, 125));
+    expect(engine.getState().interactionMode).toBe("creating");
+    expect(engine.getState().draft?.points).toEqual([
+      { logical: 10, price: 100 },
+      { logical: 25, price: 125 }
+    ]);
+
+    engine.pointerDown(input(30, 100));
+    engine.pointerUp(input(30, 100));
+
+    expect(engine.getState().interactionMode).toBe("idle");
+    expect(engine.getState().drawings[0]?.points).toEqual([
+      { logical: 10, price: 100 },
+      { logical: 25, price: 125 },
+      { logical: 30, price: 100 }
+    ]);
+  });
+
+  it("finishes click creation with Enter once minPoints is met and cancels with Escape", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.registerTool({ id: "path", minPoints: 2, maxPoints: 8, creationMode: "click" });
+    engine.setTool("path");
+
+    engine.pointerDown(input(10, 100));
+    engine.pointerUp(input(10, 100));
+    engine.keyDown({ key: "Enter" });
+    expect(engine.getState().drawings).toHaveLength(0);
+    expect(engine.getState().interactionMode).toBe("creating");
+
+    engine.pointerDown(input(20, 110));
+    engine.pointerUp(input(20, 110));
+    engine.keyDown({ key: "Escape" });
+    expect(engine.getState().drawings).toHaveLength(0);
+
+    engine.pointerDown(input(10, 100));
+    engine.pointerUp(input(10, 100));
+    engine.pointerDown(input(20, 110));
+    engine.pointerUp(input(20, 110));
+    engine.pointerDown(input(30, 90));
+    engine.pointerUp(input(30, 90));
+    engine.pointerDown(input(30, 90));
+    engine.pointerUp(input(30, 90));
+    engine.doubleClick(input(30, 90));
+
+    expect(engine.getState().drawings[0]?.points).toHaveLength(3);
+  });
+
+  it("adds, updates and removes drawings programmatically", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    const added = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 5, price: 101.5 }],
+      style: { strokeColor: "#ff0000" }
+    });
+    expect(engine.getDrawing(added.id)?.style.strokeColor).toBe("#ff0000");
+
+    engine.updateDrawing(added.id, { points: [{ logical: 5, price: 99 }], locked: true });
+    expect(engine.getDrawing(added.id)?.points[0]?.price).toBe(99);
+    expect(engine.getDrawing(added.id)?.locked).toBe(true);
+
+    engine.setSelection([added.id]);
+    expect(engine.getState().selection.ids).toEqual([added.id]);
+
+    engine.removeDrawings([added.id]);
+    expect(engine.getDrawing(added.id)).toBeNull();
+    expect(engine.getState().selection.ids).toHaveLength(0);
+
+    engine.undo();
+    expect(engine.getDrawing(added.id)?.points[0]?.price).toBe(99);
+    engine.undo();
+    engine.undo();
+    expect(engine.getState().drawings).toHaveLength(0);
+  });
+
+  it("validates programmatic drawings against the tool registry", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    expect(() => engine.addDrawing({ tool: "pitchfork", points: [] })).toThrow(/Unknown tool/);
+    expect(() =>
+      engine.addDrawing({ tool: "trend_line", points: [{ logical: 1, price: 1 }] })
+    ).toThrow(/expects 2-2 points/);
+    expect(() =>
+      engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 1, price: Number.NaN }] })
+    ).toThrow(/Invalid point/);
+    expect(engine.getState().history.undoDepth).toBe(0);
+  });
+
+  it("merges rapid style changes into one history frame", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const { id } = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 5, price: 100 }]
+    });
+
+    engine.setStyle([id], { opacity: 0.9 });
+    engine.setStyle([id], { opacity: 0.6 });
+    engine.setStyle([id], { opacity: 0.3 });
+    engine.setStyle([id], { strokeColor: "#00ff00" });
+
+    expect(engine.getState().history.undoDepth).toBe(3);
+
+    engine.undo();
+    expect(engine.getDrawing(id)?.style.opacity).toBe(0.3);
+    engine.undo();
+    expect(engine.getDrawing(id)?.style.opacity).toBe(1);
+  });
+
+  it("keeps style changes separate when merging is disabled", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false, historyMergeMs: 0 });
+    const { id } = engine.addDrawing({
+      tool: "text",
+      points: [{ logical: 5, price: 100 }]
+    });
+
+    engine.setText([id], "A");
+    engine.setText([id], "AB");
+    expect(engine.getState().history.undoDepth).toBe(3);
+
+    engine.undo();
+    expect(engine.getDrawing(id)?.text).toBe("A");
+  });
+
+  it("skips locked drawings in setStyle and applies setText to text drawings only", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const label = engine.addDrawing({ tool: "text", points: [{ logical: 5, price: 100 }] });
+    const locked = engine.addDrawing({ tool: "text", points: [{ logical: 6, price: 100 }] });
+    const line = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 90 }]
+    });
+    engine.setLocked([locked.id], true);
+
+    engine.setStyle([label.id, locked.id], { opacity: 0.5 });
+    engine.setText([label.id, locked.id, line.id], "Note");
+
+    expect(engine.getDrawing(label.id)?.style.opacity).toBe(0.5);
+    expect(engine.getDrawing(label.id)?.text).toBe("Note");
+    expect(engine.getDrawing(locked.id)?.style.opacity).toBe(1);
+    expect(engine.getDrawing(locked.id)?.text).toBe("Text");
+    expect(engine.getDrawing(line.id)?.text).toBeUndefined();
+  });
+
+  it("groups drawings so they select, lock and reorder as a unit", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const a = engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 100 }] });
+    const b = engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 200 }] });
+    const c = engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 300 }] });
+
+    engine.setSelection([a.id, c.id]);
+    const groupId = engine.groupSelection("Levels");
+    expect(groupId).not.toBeNull();
+    expect(engine.getState().groups).toEqual([{ id: groupId, name: "Levels" }]);
+
+    engine.clearSelection();
+    engine.pointerDown(input(50, 300));
+    engine.pointerUp(input(50, 300));
+    expect([...engine.getState().selection.ids].sort()).toEqual([a.id, c.id].sort());
+    expect(engine.getState().selection.primaryId).toBe(c.id);
+
+    engine.setLocked([a.id], true);
+    expect(engine.getDrawing(c.id)?.locked).toBe(true);
+    expect(engine.getDrawing(b.id)?.locked).toBe(false);
+
+    engine.sendToBack([c.id]);
+    expect(engine.getState().drawings.map((drawing) => drawing.id)).toEqual([a.id, c.id, b.id]);
+
+    engine.ungroup(groupId ?? "");
+    expect(engine.getDrawing(a.id)?.groupId).toBeUndefined();
+    expect(engine.getState().groups).toHaveLength(0);
+  });
+
+  it("batches mutations in a transaction into one frame and one event", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const reasons: string[] = [];
+    engine.subscribe((event) => reasons.push(event.reason));
+
+    const ids = engine.transaction("seed-levels", () => {
+      const a = engine.addDrawing({
+        tool: "horizontal_line",
+        points: [{ logical: 0, price: 100 }]
+      });
+      const b = engine.addDrawing({
+        tool: "horizontal_line",
+        points: [{ logical: 0, price: 110 }]
+      });
+      engine.transaction("nested", () => {
+        engine.setLocked([a.id], true);
+        engine.bringToFront([a.id]);
+      });
+      return [a.id, b.id];
+    });
+
+    expect(ids).toHaveLength(2);
+    expect(reasons).toEqual(["drawings"]);
+    expect(engine.getState().history.undoDepth).toBe(1);
+
+    engine.undo();
+    expect(engine.getState().drawings).toHaveLength(0);
+  });
+
+  it("emits typed changes and builds the state view only on access", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const events: EngineEvent[] = [];
+    const updates: string[][] = [];
+    engine.subscribe((event) => events.push(event));
+    engine.on("drawings:updated", (change) => updates.push(change.ids));
+
+    const line = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 1, price: 10 }]
+    });
+    expect(events.at(-1)?.changes.map((change) => change.type)).toEqual([
+      "drawings:added",
+      "history:changed"
+    ]);
+
+    engine.setSelection([line.id]);
+    engine.setStyle([line.id], { lineWidth: 3 });
+    expect(events.at(-1)?.changes).toEqual([
+      {
+        type: "drawings:updated",
+        ids: [line.id],
+        patches: {
+          [line.id]: expect.objectContaining({ style: expect.objectContaining({ lineWidth: 3 }) })
+        }
+      },
+      { type: "history:changed", undoDepth: 2, redoDepth: 0 }
+    ]);
+    expect(updates).toEqual([[line.id]]);
+
+    // Undo restores a clone; only the fields that differ are reported.
+    engine.undo();
+    const undone = events.at(-1)?.changes.find((change) => change.type === "drawings:updated");
+    const patch = undone?.type === "drawings:updated" ? undone.patches[line.id] : undefined;
+    expect(patch).toHaveProperty("style");
+    expect(patch).not.toHaveProperty("points");
+    engine.redo();
+
+    engine.setTool("trend_line");
+    engine.deleteSelection();
+    expect(events.slice(-2).map((event) => event.changes.map((change) => change.type))).toEqual([
+      ["tool:changed"],
+      ["drawings:removed", "selection:changed", "history:changed"]
+    ]);
+
+    engine.reportFrame(10);
+    expect(events.at(-1)?.changes).toEqual([]);
+    expect(events.at(-1)?.state.drawings).toEqual([]);
+  });
+
+  it("reports text typed during an edit and its cancellation", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.setTool("text");
+    engine.pointerDown(input(10, 100));
+    engine.pointerUp(input(10, 100));
+    const id = engine.getState().editingTextId ?? "";
+    const original = engine.getDrawing(id)?.text;
+    const texts: unknown[] = [];
+    engine.on("drawings:updated", (change) => texts.push(change.patches[id]?.text));
+
+    engine.updateText(id, "Hi");
+    engine.cancelTextEdit();
+    expect(texts).toEqual(["Hi", original]);
+  });
+
+  it("tracks the hovered drawing, handle and cursor", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const line = engine.addDrawing({
+      tool: "trend_line",
+      points: [
+        { logical: 10, price: 100 },
+        { logical: 50, price: 100 }
+      ]
+    });
+    const level = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 50 }]
+    });
+    engine.setTool("cursor");
+    const events: EngineEvent[] = [];
+    engine.subscribe((event) => events.push(event));
+
+    engine.pointerMove(input(30, 100));
+    expect(engine.getState()).toMatchObject({
+      hoveredId: line.id,
+      hoveredHandle: null,
+      cursor: "pointer"
+    });
+    engine.pointerMove(input(31, 100));
+    expect(events).toHaveLength(1);
+
+    engine.setSelection([line.id]);
+    expect(engine.getState().cursor).toBe("move");
+    engine.pointerMove(input(50, 101));
+    expect(engine.getState()).toMatchObject({ hoveredHandle: 1, cursor: "move" });
+
+    engine.pointerMove(input(200, 50));
+    expect(engine.getState()).toMatchObject({ hoveredId: level.id, cursor: "pointer" });
+    engine.setLocked([level.id], true);
+    expect(engine.getState().cursor).toBe("not-allowed");
+
+    engine.pointerMove(input(200, 300));
+    expect(engine.getState()).toMatchObject({ hoveredId: null, cursor: "default" });
+
+    expect(engine.hitTest(input(30, 100))).toEqual({ id: line.id, kind: "body" });
+    expect(engine.hitTest(input(200, 300))).toBeNull();
+
+    engine.pointerMove(input(30, 100));
+    engine.pointerLeave();
+    expect(engine.getState().hoveredId).toBeNull();
+
+    engine.setTool("rectangle");
+    expect(engine.getState().cursor).toBe("crosshair");
+  });
+
+  it("rolls back a transaction when the callback throws", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const existing = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 100 }]
+    });
+
+    expect(() =>
+      engine.transaction("broken", () => {
+        engine.setVisibility([existing.id], false);
+        engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 90 }] });
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+
+    expect(engine.getState().drawings).toHaveLength(1);
+    expect(engine.getDrawing(existing.id)?.visible).toBe(true);
+    expect(engine.getState().history.undoDepth).toBe(1);
+  });
+
+  it("refuses history and snapshot changes inside a transaction", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const existing = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 100 }]
+    });
+    const snapshot = engine.exportSnapshot();
+
+    engine.transaction("guarded", () => {
+      expect(() => engine.undo()).toThrow("Cannot undo inside a transaction");
+      expect(() => engine.redo()).toThrow("Cannot redo inside a transaction");
+      expect(() => engine.importSnapshot(snapshot)).toThrow(
+        "Cannot import a snapshot inside a transaction"
+      );
+      expect(() => engine.setDocument("other")).toThrow(
+        "Cannot switch documents inside a transaction"
+      );
+      engine.setVisibility([existing.id], false);
+    });
+
+    expect(engine.getState().history).toMatchObject({ undoDepth: 2, redoDepth: 0 });
+    engine.undo();
+    expect(engine.getDrawing(existing.id)?.visible).toBe(true);
+    expect(engine.getState().history).toMatchObject({ undoDepth: 1, redoDepth: 1 });
+  });
+
+  it("hides drawings outside their resolution rule from hit testing and selection", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const weekly = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 100 }],
+      visibility: { minResolution: 86_400 }
+    });
+    const intraday = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 50 }],
+      visibility: { resolutions: [60, 300] }
+    });
+
+    engine.setSelection([weekly.id, intraday.id]);
+    engine.setCurrentResolution(60);
+    expect(engine.getState().resolution).toBe(60);
+    expect(engine.getState().selection.ids).toEqual([intraday.id]);
+    expect(engine.getState().drawings).toHaveLength(2);
+
+    engine.setTool("cursor");
+    engine.pointerDown(input(3, 100));
+    engine.pointerUp(input(3, 100));
+    expect(engine.getState().selection.ids).toEqual([]);
+
+    engine.setSelection([weekly.id]);
+    expect(engine.getState().selection).toMatchObject({ ids: [], primaryId: null });
+    engine.deleteSelection();
+    expect(engine.getDrawing(weekly.id)).not.toBeNull();
+
+    engine.setCurrentResolution(604_800);
+    engine.selectAll();
+    expect(engine.getState().selection.ids).toEqual([weekly.id]);
+  });
+
+  it("keeps drawings and history per document", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.setDocument("AAPL");
+    engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 190 }] });
+    engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 180 }] });
+
+    engine.setDocument("MSFT");
+    expect(engine.getState().documentKey).toBe("MSFT");
+    expect(engine.getState().drawings).toHaveLength(0);
+    expect(engine.getState().history.undoDepth).toBe(0);
+    engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 410 }] });
+
+    engine.setDocument("AAPL");
+    expect(engine.getState().drawings).toHaveLength(2);
+    engine.undo();
+    expect(engine.getState().drawings).toHaveLength(1);
+
+    engine.setDocument("MSFT");
+    expect(engine.getState().drawings).toHaveLength(1);
+    expect(engine.getState().history.undoDepth).toBe(1);
+
+    // A document emptied by undo keeps its redo history.
+    engine.undo();
+    engine.setDocument("AAPL");
+    engine.setDocument("MSFT");
+    expect(engine.getState().history.redoDepth).toBe(1);
+    engine.redo();
+    expect(engine.getState().drawings).toHaveLength(1);
+  });
+
+  it("snaps to the nearest OHLC value in magnet modes", () => {
+    const engine = createDrawingEngine({
+      emitOnAnimationFrame: false,
+      snapMode: "weak-magnet",
+      objectSnap: false
+    });
+    engine.setBarDataProvider({
+      barAt: (logical) => (logical === 10 ? { open: 100, high: 120, low: 90, close: 110 } : null)
+    });
+
+    engine.setTool("horizontal_line");
+    engine.pointerDown(input(10.2, 118));
+    engine.pointerUp(input(10.2, 118));
+    expect(engine.getState().drawings[0]?.points[0]).toEqual({ logical: 10, price: 120 });
+
+    engine.setTool("horizontal_line");
+    engine.pointerDown(input(10, 140));
+    engine.pointerUp(input(10, 140));
+    expect(engine.getState().drawings[1]?.points[0]).toEqual({ logical: 10, price: 140 });
+
+    engine.setOptions({ snapMode: "strong-magnet" });
+    engine.setTool("horizontal_line");
+    engine.pointerDown(input(10, 140));
+    engine.pointerUp(input(10, 140));
+    expect(engine.getState().drawings[2]?.points[0]).toEqual({ logical: 10, price: 120 });
+  });
+
+  it("snaps new points to other drawings' endpoints and intersections", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false, snapMode: "off" });
+    const trend = engine.addDrawing({
+      tool: "trend_line",
+      points: [
+        { logical: 0, price: 0 },
+        { logical: 40, price: 40 }
+      ]
+    });
+    const level = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 20 }]
+    });
+
+    engine.setTool("trend_line");
+    engine.pointerMove(input(38, 37));
+    expect(engine.getState().snapTarget).toMatchObject({
+      kind: "endpoint",
+      point: { logical: 40, price: 40 },
+      drawingIds: [trend.id]
+    });
+
+    engine.pointerDown(input(38, 37));
+    engine.pointerMove(input(22, 19));
+    expect(engine.getState().snapTarget).toMatchObject({
+      kind: "intersection",
+      point: { logical: 20, price: 20 },
+      drawingIds: [trend.id, level.id]
+    });
+    engine.pointerUp(input(22, 19));
+
+    const created = engine.getState().drawings.at(-1);
+    expect(created?.points).toEqual([
+      { logical: 40, price: 40 },
+      { logical: 20, price: 20 }
+    ]);
+  });
+
+  it("constrains angles, squares and drag axes while Shift is held", () => {
+    const engine = createDrawingEngine({
+      emitOnAnimationFrame: false,
+      snapMode: "off",
+      objectSnap: false
+    });
+    const viewport = { logicalPerPixel: 0.5, pricePerPixel: 2 };
+    const at = (logical: number, price: number, shiftKey = true) =>
+      input(logical, price, { viewport, shiftKey });
+
+    engine.setTool("trend_line");
+    engine.pointerDown(at(10, 100, false));
+    engine.pointerMove(at(30, 104));
+    expect(engine.getState().draft?.points[1]).toEqual({ logical: 30, price: 100 });
+    engine.pointerMove(at(20, 138));
+    engine.pointerUp(at(20, 138));
+    const line = engine.getState().drawings.at(-1);
+    expect(line?.points[1]?.logical).toBeCloseTo(19.75);
+    expect(line?.points[1]?.price).toBeCloseTo(139);
+
+    engine.setTool("rectangle");
+    engine.pointerDown(at(100, 0, false));
+    engine.pointerMove(at(110, -8));
+    engine.pointerUp(at(110, -8));
+    expect(engine.getState().drawings.at(-1)?.points[1]).toEqual({ logical: 110, price: -40 });
+
+    engine.setTool("cursor");
+    const level = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 500 }]
+    });
+    engine.pointerDown(input(50, 500, { viewport }));
+    engine.pointerMove(at(55, 530));
+    engine.pointerUp(at(55, 530));
+    expect(engine.getDrawing(level.id)?.points[0]).toEqual({ logical: 0, price: 530 });
+  });
+
+  it("snaps prices to the instrument's tick size", () => {
+    const engine = createDrawingEngine({
+      emitOnAnimationFrame: false,
+      objectSnap: false,
+      instrument: { tickSize: 0.00001, pricePrecision: 5, minMove: 1 }
+    });
+    const fx = { logicalPerPixel: 1, pricePerPixel: 0.000001 };
+
+    engine.setTool("horizontal_line");
+    engine.pointerDown(input(3.2, 1.234567, { viewport: fx }));
+    engine.pointerUp(input(3.2, 1.234567, { viewport: fx }));
+    expect(engine.getState().drawings.at(-1)?.points[0]).toEqual({ logical: 3, price: 1.23457 });
+
+    engine.setOptions({
+      snapMode: "strong",
+      instrument: { tickSize: 0.25, pricePrecision: 2, minMove: 1 }
+    });
+    engine.pointerDown(input(5, 4312.4, { viewport: { logicalPerPixel: 1, pricePerPixel: 0.2 } }));
+    engine.pointerUp(input(5, 4312.4, { viewport: { logicalPerPixel: 1, pricePerPixel: 0.2 } }));
+    expect(engine.getState().drawings.at(-1)?.points[0]?.price).toBe(4312);
+  });
+
+  it("keeps Shift-constrained points on ticks and bars", () => {
+    const engine = createDrawingEngine({
+      emitOnAnimationFrame: false,
+      objectSnap: false,
+      instrument: { tickSize: 0.25, pricePrecision: 2, minMove: 1 }
+    });
+    const viewport = { logicalPerPixel: 1, pricePerPixel: 0.97 };
+
+    engine.setTool("trend_line");
+    engine.pointerDown(input(0, 100, { viewport }));
+    engine.pointerMove(input(3.4, 103.3, { viewport, shiftKey: true }));
+    engine.pointerUp(input(3.4, 103.3, { viewport, shiftKey: true }));
+
+    const end = engine.getState().drawings[0]?.points[1];
+    expect(Number.isInteger(end?.logical)).toBe(true);
+    expect(((end?.price ?? 0) * 4) % 1).toBe(0);
+  });
 });
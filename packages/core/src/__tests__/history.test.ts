@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createDrawingEngine } from "../engine";
+import { diffEntities, HistoryStore } from "../history";
+import type { DrawingEntity } from "../types";
+
+function level(id: string, price: number): DrawingEntity {
+  return {
+    id,
+    tool: "horizontal_line",
+    points: [{ logical: 0, price }],
+    style: {
+      strokeColor: "#000",
+      fillColor: "#0000",
+      textColor: "#000",
+      lineWidth: 1,
+      lineStyle: "solid",
+      opacity: 1,
+      showLabel: true
+    },
+    visible: true,
+    locked: false,
+    zIndex: 0,
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+describe("history", () => {
+  it("diffs only added, removed and changed entities", () => {
+    const current = new Map([
+      ["a", level("a", 100)],
+      ["b", level("b", 105)]
+    ]);
+    const before = new Map<string, DrawingEntity | null>([
+      ["a", level("a", 100)],
+      ["b", level("b", 110)],
+      ["c", level("c", 120)],
+      ["d", null]
+    ]);
+
+    const changes = diffEntities(before, current);
+    expect(changes.map((change) => change.id)).toEqual(["b", "c"]);
+    expect(changes[0]?.after?.points[0]?.price).toBe(105);
+    expect(changes[1]?.after).toBeNull();
+  });
+
+  it("tracks estimated memory and releases it on eviction", () => {
+    const store = new HistoryStore(2);
+    const frame = (id: string) => ({
+      label: "add",
+      changes: [{ id, before: null, after: level(id, 1) }],
+      at: 0
+    });
+
+    store.push(frame("a"));
+    const single = store.memoryUsage();
+    expect(single).toBeGreaterThan(0);
+
+    store.push(frame("b"));
+    store.push(frame("c"));
+    expect(store.memoryUsage()).toBe(single * 2);
+
+    store.clear();
+    expect(store.memoryUsage()).toBe(0);
+  });
+
+  it("keeps frame size proportional to the change, not the document", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.transaction("seed", () => {
+      for (let i = 0; i < 200; i += 1) {
+        engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: i }] });
+      }
+    });
+    const seeded = engine.getState().metrics.historyBytes;
+
+    const target = engine.getState().drawings[10]?.id ?? "";
+    engine.setLocked([target], true);
+    const lockFrameBytes = engine.getState().metrics.historyBytes - seeded;
+
+    expect(lockFrameBytes).toBeGreaterThan(0);
+    expect(lockFrameBytes * 50).toBeLessThan(seeded);
+
+    engine.undo();
+    expect(engine.getDrawing(target)?.locked).toBe(false);
+    expect(engine.getState().drawings).toHaveLength(200);
+  });
+});
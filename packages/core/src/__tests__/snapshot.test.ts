@@ -1,5 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { createDrawingEngine } from "../engine";
+import { migrateSnapshot, SnapshotValidationError, validateSnapshot } from "../snapshot";
+import { BUILTIN_TOOLS } from "../tools";
 import type { PointerInput } from "../types";
 
 function input(logical: number, price: number): PointerInput {
@@ -32,4 +34,133 @@ describe("snapshot", () => {
     expect(next.getState().drawings).toHaveLength(1);
     expect(next.getState().drawings[0]?.tool).toBe("text");
   });
+
+  it("round-trips named groups", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const a = engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 100 }] });
+    const b = engine.addDrawing({ tool: "vertical_line", points: [{ logical: 5, price: 100 }] });
+    engine.setSelection([a.id, b.id]);
+    const groupId = engine.groupSelection("Session");
+
+    const snapshot = engine.exportSnapshot();
+    expect(snapshot.documents.default?.groups).toEqual([{ id: groupId, name: "Session" }]);
+
+    const next = createDrawingEngine({ emitOnAnimationFrame: false });
+    next.importSnapshot(snapshot);
+    expect(next.getState().groups).toEqual([{ id: groupId, name: "Session" }]);
+    expect(next.getDrawing(b.id)?.groupId).toBe(groupId);
+  });
+
+  it("round-trips visibility rules", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    const line = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 100 }],
+      visibility: { resolutions: [60], maxResolution: 3600 }
+    });
+
+    const next = createDrawingEngine({ emitOnAnimationFrame: false });
+    next.importSnapshot(JSON.parse(JSON.stringify(engine.exportSnapshot())));
+    expect(next.getDrawing(line.id)?.visibility).toEqual({
+      resolutions: [60],
+      maxResolution: 3600
+    });
+  });
+
+  it("exports every document and restores the active one", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.setDocument("AAPL");
+    const aapl = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 0, price: 190 }]
+    });
+    engine.setDocument("MSFT");
+    engine.addDrawing({ tool: "horizontal_line", points: [{ logical: 0, price: 410 }] });
+
+    const snapshot = engine.exportSnapshot();
+    expect(Object.keys(snapshot.documents).sort()).toEqual(["AAPL", "MSFT"]);
+    expect(snapshot.activeDocument).toBe("MSFT");
+
+    const next = createDrawingEngine({ emitOnAnimationFrame: false });
+    next.importSnapshot(snapshot);
+    expect(next.getState().documentKey).toBe("MSFT");
+    expect(next.listDocuments()).toEqual(["AAPL", "MSFT"]);
+    next.setDocument("AAPL");
+    expect(next.getState().drawings.map((drawing) => drawing.id)).toEqual([aapl.id]);
+  });
+
+  it("migrates v1 snapshots to the current version", () => {
+    const migrated = migrateSnapshot({
+      version: "1",
+      drawings: [],
+      groups: [],
+      prefs: { activeTool: "cursor", snapMode: "off" }
+    });
+
+    expect(migrated.version).toBe("3");
+    expect(migrated.exportedAt).toBe(0);
+    expect(migrated.activeDocument).toBe("default");
+    expect(migrated.documents.default).toEqual({ drawings: [], groups: [] });
+    expect(() => migrateSnapshot({ version: "9" })).toThrow(SnapshotValidationError);
+    expect(() => migrateSnapshot({ version: "valueOf" })).toThrow(SnapshotValidationError);
+    expect(() => migrateSnapshot({ version: "constructor" })).toThrow(SnapshotValidationError);
+  });
+
+  it("reports structured errors and warnings", () => {
+    const line = { id: "a", tool: "horizontal_line", points: [{ logical: 0, price: 100 }] };
+    const result = validateSnapshot(
+      {
+        version: "1",
+        drawings: [
+          line,
+          { ...line },
+          { id: "b", tool: "laser", points: [] },
+          {
+            id: "c",
+            tool: "trend_line",
+            points: [
+              { logical: 0, price: NaN },
+              { logical: 1, price: 1 }
+            ]
+          }
+        ],
+        groups: [],
+        prefs: { activeTool: "cursor", snapMode: "off" }
+      },
+      { tools: BUILTIN_TOOLS }
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((issue) => [issue.code, issue.index])).toEqual([
+      ["duplicate-id", 1],
+      ["unknown-tool", 2],
+      ["invalid-point", 3]
+    ]);
+    expect(result.errors[2]?.path).toBe('$.documents["default"].drawings[3].points[0]');
+    expect(
+      result.warnings.some((issue) => issue.path === '$.documents["default"].drawings[0].style')
+    ).toBe(true);
+  });
+
+  it("rejects invalid drawings in strict mode and drops them in lenient mode", () => {
+    const snapshot = {
+      version: "1",
+      drawings: [
+        { id: "a", tool: "horizontal_line", points: [{ logical: 0, price: 100 }] },
+        { id: "b", tool: "horizontal_line", points: [{ logical: 0, price: "oops" }] }
+      ],
+      groups: [],
+      prefs: { activeTool: "cursor", snapMode: "off" }
+    };
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+
+    expect(() => engine.importSnapshot(snapshot)).toThrow(SnapshotValidationError);
+    expect(engine.getState().drawings).toHaveLength(0);
+
+    const report = engine.importSnapshot(snapshot, { mode: "lenient" });
+    expect(report.imported).toBe(1);
+    expect(report.dropped.map((issue) => issue.drawingId)).toEqual(["b"]);
+    expect(engine.getDrawing("a")?.style.lineWidth).toBeGreaterThan(0);
+    expect(engine.getDrawing("a")?.visible).toBe(true);
+  });
 });
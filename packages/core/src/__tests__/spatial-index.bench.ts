@@ -0,0 +1,74 @@
+import { bench, describe } from "vitest";
+import { DEFAULT_STYLE } from "../defaults";
+import { entityExtent, type IndexExtent } from "../geometry";
+import { SpatialIndex } from "../spatial-index";
+import type { DrawingEntity, EngineViewport, ToolId } from "../types";
+
+const COUNT = 10_000;
+
+const viewport: EngineViewport = {
+  logicalPerPixel: 0.1,
+  pricePerPixel: 0.05
+};
+
+// Every fifth drawing is a level or line tool spanning the chart on at least one axis.
+const TOOLS: ToolId[] = [
+  "trend_line",
+  "rectangle",
+  "horizontal_line",
+  "fibonacci",
+  "vertical_line",
+  "arrow",
+  "ray",
+  "ruler",
+  "extended_line",
+  "trend_line"
+];
+
+function drawing(i: number, offset = 0): DrawingEntity {
+  const logical = (i % 500) * 4 + offset;
+  const price = Math.floor(i / 500) * 10;
+  return {
+    id: `d${i}`,
+    tool: TOOLS[i % TOOLS.length] ?? "trend_line",
+    points: [
+      { logical, price },
+      { logical: logical + 6, price: price + 5 }
+    ],
+    style: DEFAULT_STYLE,
+    visible: true,
+    locked: false,
+    zIndex: i,
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+function extent(i: number, offset = 0): IndexExtent {
+  return entityExtent(drawing(i, offset));
+}
+
+const extents = Array.from({ length: COUNT }, (_, i): [string, IndexExtent] => [
+  `d${i}`,
+  extent(i)
+]);
+
+// One drag step of a single drawing at 10k drawings: rebuilding everything vs. one upsert.
+describe(`drag step at ${COUNT} drawings`, () => {
+  const index = new SpatialIndex();
+  index.load(extents);
+  let step = 0;
+
+  bench("full rebuild", () => {
+    step += 1;
+    extents[0] = ["d0", extent(0, step % 50)];
+    index.load(extents);
+    index.queryPoint({ logical: 100, price: 50 }, viewport, 6);
+  });
+
+  bench("incremental upsert", () => {
+    step += 1;
+    index.upsert("d0", extent(0, step % 50));
+    index.queryPoint({ logical: 100, price: 50 }, viewport, 6);
+  });
+});
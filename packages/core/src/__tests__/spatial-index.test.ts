@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STYLE } from "../defaults";
+import { entityExtent, type IndexExtent } from "../geometry";
+import { SpatialIndex } from "../spatial-index";
+import type { DrawingPoint, EngineViewport, ToolId } from "../types";
+
+const viewport: EngineViewport = {
+  logicalPerPixel: 1,
+  pricePerPixel: 1
+};
+
+function extent(minLogical: number, maxLogical: number, minPrice: number, maxPrice: number) {
+  return {
+    bbox: { minLogical, maxLogical, minPrice, maxPrice },
+    paddingPx: 0
+  };
+}
+
+describe("spatial index", () => {
+  it("updates and removes single entries", () => {
+    const index = new SpatialIndex();
+    index.load([
+      ["a", extent(0, 10, 0, 10)],
+      ["b", extent(100, 110, 100, 110)]
+    ]);
+
+    expect(index.queryPoint({ logical: 5, price: 5 }, viewport, 0)).toEqual(["a"]);
+
+    index.upsert("a", extent(200, 210, 200, 210));
+    expect(index.queryPoint({ logical: 5, price: 5 }, viewport, 0)).toEqual([]);
+    expect(index.queryPoint({ logical: 205, price: 205 }, viewport, 0)).toEqual(["a"]);
+
+    index.remove("b");
+    expect(index.size).toBe(1);
+    expect(index.queryPoint({ logical: 105, price: 105 }, viewport, 0)).toEqual([]);
+  });
+
+  it("applies pixel tolerance and padding for the queried viewport", () => {
+    const index = new SpatialIndex();
+    index.upsert("a", extent(0, 10, 0, 10));
+    index.upsert("label", { ...extent(50, 50, 50, 50), paddingPx: 20 });
+
+    const point = { logical: 14, price: 5 };
+    expect(index.queryPoint(point, viewport, 2)).toEqual([]);
+    expect(index.queryPoint(point, viewport, 5)).toEqual(["a"]);
+    // Zooming out makes the same tolerance reach further in model space.
+    expect(index.queryPoint(point, { logicalPerPixel: 2, pricePerPixel: 2 }, 2)).toEqual(["a"]);
+
+    expect(index.queryPoint({ logical: 65, price: 50 }, viewport, 0)).toEqual(["label"]);
+  });
+
+  it("indexes line tools by the span they cover", () => {
+    const index = new SpatialIndex();
+    const line = (tool: ToolId, points: DrawingPoint[]): [string, IndexExtent] => [
+      tool,
+      entityExtent({
+        id: tool,
+        tool,
+        points,
+        style: DEFAULT_STYLE,
+        visible: true,
+        locked: false,
+        zIndex: 0,
+        createdAt: 0,
+        updatedAt: 0
+      })
+    ];
+    index.load([
+      line("horizontal_line", [{ logical: 0, price: 10 }]),
+      line("vertical_line", [{ logical: 5, price: 0 }]),
+      line("ray", [
+        { logical: 0, price: 0 },
+        { logical: 1, price: 1 }
+      ]),
+      line("extended_line", [
+        { logical: 0, price: 100 },
+        { logical: 1, price: 100 }
+      ])
+    ]);
+
+    expect(index.queryPoint({ logical: -1e6, price: 10 }, viewport, 0)).toEqual([
+      "horizontal_line"
+    ]);
+    expect(index.queryPoint({ logical: 5, price: -1e6 }, viewport, 0)).toEqual(["vertical_line"]);
+    expect(index.queryPoint({ logical: 1e6, price: 1e6 }, viewport, 0)).toEqual(["ray"]);
+    expect(index.queryPoint({ logical: -1e6, price: -1e6 }, viewport, 0)).toEqual([]);
+    expect(index.queryPoint({ logical: -1e6, price: 100 }, viewport, 0)).toEqual(["extended_line"]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { createDrawingEngine } from "../engine";
+import { createBarTimeResolver } from "../time";
+
+const HOUR = 3600;
+
+function hourlyBars(start: number, count: number): number[] {
+  return Array.from({ length: count }, (_, index) => start + index * HOUR);
+}
+
+describe("time anchors", () => {
+  it("interpolates between bars and extrapolates past both ends", () => {
+    const resolver = createBarTimeResolver(hourlyBars(1_000_000, 10));
+
+    expect(resolver.logicalToTime(2.5)).toBe(1_000_000 + 2.5 * HOUR);
+    expect(resolver.timeToLogical(1_000_000 + 2.5 * HOUR)).toBe(2.5);
+    expect(resolver.logicalToTime(12)).toBe(1_000_000 + 12 * HOUR);
+    expect(resolver.timeToLogical(1_000_000 + 12 * HOUR)).toBe(12);
+    expect(resolver.timeToLogical(1_000_000 - 2 * HOUR)).toBe(-2);
+    expect(createBarTimeResolver([]).logicalToTime(0)).toBeNull();
+  });
+
+  it("keeps drawings on the same candles when history is prepended", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.setTimeResolver(createBarTimeResolver(hourlyBars(1_000_000, 10)));
+    const line = engine.addDrawing({
+      tool: "trend_line",
+      points: [
+        { logical: 2, price: 100 },
+        { logical: 5, price: 110 }
+      ]
+    });
+    expect(line.points.map((point) => point.time)).toEqual([
+      1_000_000 + 2 * HOUR,
+      1_000_000 + 5 * HOUR
+    ]);
+
+    engine.setTimeResolver(createBarTimeResolver(hourlyBars(1_000_000 - 4 * HOUR, 14)));
+    expect(engine.getDrawing(line.id)?.points.map((point) => point.logical)).toEqual([6, 9]);
+    const viewport = { logicalPerPixel: 0.1, pricePerPixel: 0.1 };
+    expect(engine.hitTest({ x: 0, y: 0, logical: 7.5, price: 105, viewport })?.id).toBe(line.id);
+    expect(engine.hitTest({ x: 0, y: 0, logical: 3.5, price: 105, viewport })).toBeNull();
+
+    engine.updateDrawing(line.id, { locked: true });
+    engine.undo();
+    expect(engine.getDrawing(line.id)?.points.map((point) => point.logical)).toEqual([6, 9]);
+  });
+
+  it("only reports drawings whose resolved points moved", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.setTimeResolver(createBarTimeResolver(hourlyBars(1_000_000, 10)));
+    const line = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 3, price: 100 }]
+    });
+    const updates: string[][] = [];
+    engine.on("drawings:updated", (change) => updates.push(change.ids));
+
+    engine.setTimeResolver(createBarTimeResolver(hourlyBars(1_000_000, 11)));
+    expect(updates).toEqual([]);
+
+    engine.setTimeResolver(createBarTimeResolver(hourlyBars(1_000_000 - HOUR, 12)));
+    expect(updates).toEqual([[line.id]]);
+  });
+
+  it("anchors moved points to their new time and restores them from snapshots", () => {
+    const engine = createDrawingEngine({ emitOnAnimationFrame: false });
+    engine.setTimeResolver(createBarTimeResolver(hourlyBars(1_000_000, 10)));
+    const line = engine.addDrawing({
+      tool: "horizontal_line",
+      points: [{ logical: 3, price: 100 }]
+    });
+    engine.setSelection([line.id]);
+    engine.keyDown({ key: "ArrowRight" });
+    expect(engine.getDrawing(line.id)?.points[0]?.time).toBe(1_000_000 + 4 * HOUR);
+
+    const snapshot = engine.exportSnapshot();
+    const next = createDrawingEngine({ emitOnAnimationFrame: false });
+    next.setTimeResolver(createBarTimeResolver(hourlyBars(1_000_000 + HOUR, 10)));
+    next.importSnapshot(snapshot);
+    expect(next.getDrawing(line.id)?.points[0]?.logical).toBe(3);
+  });
+});
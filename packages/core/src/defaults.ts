@@ -1,4 +1,8 @@
-import type { DrawingStyle, EngineOptions } from "./types.js";
+import type { DrawingStyle, EngineOptions, SnapMode } from "./types.js";
+
+export const DEFAULT_DOCUMENT_KEY = "default";
+
+export const SNAP_MODES: SnapMode[] = ["off", "weak", "strong", "weak-magnet", "strong-magnet"];
 
 export const DEFAULT_STYLE: DrawingStyle = {
   strokeColor: "#2a7fff",
@@ -17,8 +21,13 @@ export const DEFAULT_OPTIONS: EngineOptions = {
   hitTolerancePxMouse: 6,
   hitTolerancePxTouch: 14,
   snapMode: "weak",
+  magnetRadiusPx: 12,
+  instrument: null,
+  objectSnap: true,
+  objectSnapRadiusPx: 8,
   emitOnAnimationFrame: true,
   enableHoldToDraw: true,
   holdToDrawMs: 180,
-  holdMoveTolerancePx: 6
+  holdMoveTolerancePx: 6,
+  historyMergeMs: 500
 };
@@ -1,34 +1,81 @@
 import { nanoid } from "nanoid";
-import { DEFAULT_OPTIONS } from "./defaults.js";
+import { DEFAULT_DOCUMENT_KEY, DEFAULT_OPTIONS, SNAP_MODES } from "./defaults.js";
 import {
   bboxFromPoints,
+  constrainAngle,
+  constrainAxis,
+  constrainSquare,
   equalPoints,
+  entityExtent,
   expandBBoxByPixels,
   hitTestEntity,
+  hitTestHandles,
   rectContainsBBox,
+  type IndexExtent,
   translatePoint
 } from "./geometry.js";
-import { cloneEntities, cloneEntity, HistoryStore } from "./history.js";
+import {
+  cloneEntities,
+  cloneEntity,
+  cloneVisibility,
+  diffEntities,
+  HistoryStore,
+  sameField,
+  type EntitySnapshot
+} from "./history.js";
+import {
+  migrateSnapshot,
+  sanitizeDrawing,
+  sanitizeGroups,
+  SNAPSHOT_VERSION,
+  SnapshotValidationError,
+  validateSnapshot
+} from "./snapshot.js";
+import { priceStep, roundToStep } from "./instrument.js";
+import { findSnapTargets } from "./snapping.js";
 import { SpatialIndex } from "./spatial-index.js";
 import { BUILTIN_TOOLS } from "./tools.js";
+import { isVisibleAtResolution } from "./visibility.js";
 import type {
+  BarDataProvider,
+  CreationMode,
+  DrawingChangePatch,
   DrawingEngine,
   DrawingEntity,
+  DrawingGroup,
+  DrawingHit,
   DrawingPoint,
-  DrawingSnapshotV1,
+  DrawingSnapshotV3,
+  EngineChange,
+  EngineChangeType,
+  EngineCursor,
   EngineEvent,
+  EntityChange,
   EngineOptions,
   EngineStateView,
   EngineSubscriber,
   EngineViewport,
+  HitTestResult,
   KeyboardInput,
   PointerInput,
+  SnapTarget,
+  TimeResolver,
+  ToolCreateHook,
   ToolDefinition,
+  ToolDraftUpdate,
   ToolId
 } from "./types.js";
 
 type EngineReason = EngineEvent["reason"];
 
+const ANGLE_CONSTRAINED_TOOLS: ReadonlySet<ToolId> = new Set<ToolId>([
+  "trend_line",
+  "ray",
+  "arrow",
+  "extended_line",
+  "ruler"
+]);
+
 type InternalInteraction =
   | {
       mode: "idle";
@@ -36,19 +83,37 @@ type InternalInteraction =
   | {
       mode: "creating";
       tool: ToolDefinition;
+      placement: CreationMode;
+      draftId: string;
       startedAt: number;
       pointerType: PointerInput["pointerType"];
       downScreen: { x: number; y: number };
       points: DrawingPoint[];
-      beforeSnapshot: DrawingEntity[];
+      preview: DrawingPoint | null;
+      derivedPoints: DrawingPoint[] | null;
+      metadata: Record<string, unknown> | null;
+      beforeSnapshot: EntitySnapshot;
       pendingHold: boolean;
     }
   | {
       mode: "dragging-selection";
       start: DrawingPoint;
-      beforeSnapshot: DrawingEntity[];
+      beforeSnapshot: EntitySnapshot;
       originPoints: Map<string, DrawingPoint[]>;
     }
+  | {
+      mode: "editing-handle";
+      id: string;
+      handleIndex: number;
+      beforeSnapshot: EntitySnapshot;
+      originPoints: DrawingPoint[];
+    }
+  | {
+      mode: "editing-text";
+      id: string;
+      beforeSnapshot: EntitySnapshot;
+      originalText: string | undefined;
+    }
   | {
       mode: "marquee";
       start: DrawingPoint;
@@ -56,9 +121,20 @@ type InternalInteraction =
       baseSelection: Set<string>;
     };
 
+type CreatingInteraction = Extract<InternalInteraction, { mode: "creating" }>;
+
+interface HoverState {
+  id: string;
+  handleIndex: number | null;
+}
+
 interface EngineMutableState {
   activeTool: ToolId;
+  resolution: number | null;
+  snapTarget: SnapTarget | null;
+  hover: HoverState | null;
   drawings: Map<string, DrawingEntity>;
+  groups: Map<string, DrawingGroup>;
   selection: Set<string>;
   primaryId: string | null;
   interaction: InternalInteraction;
@@ -74,18 +150,36 @@ interface InternalMetrics {
   lastHitTestMs: number;
 }
 
-function styleChanged(a: DrawingEntity[], b: DrawingEntity[]): boolean {
-  if (a.length !== b.length) {
-    return true;
-  }
-  for (let i = 0; i < a.length; i += 1) {
-    const aa = a[i];
-    const bb = b[i];
-    if (!aa || !bb || aa.id !== bb.id || aa.updatedAt !== bb.updatedAt || aa.zIndex !== bb.zIndex) {
-      return true;
+interface DocumentState {
+  drawings: Map<string, DrawingEntity>;
+  groups: Map<string, DrawingGroup>;
+  selection: Set<string>;
+  primaryId: string | null;
+  history: HistoryStore;
+}
+
+function groupsInUse(
+  drawings: Iterable<DrawingEntity>,
+  groups: Map<string, DrawingGroup>
+): DrawingGroup[] {
+  const used = new Set<string>();
+  for (const drawing of drawings) {
+    if (drawing.groupId) {
+      used.add(drawing.groupId);
     }
   }
-  return false;
+  return [...groups.values()].filter((group) => used.has(group.id)).map((group) => ({ ...group }));
+}
+
+// Values are compared, so entities restored from clones (undo, redo, rollback) only report real edits.
+function changedFields(previous: DrawingEntity, next: DrawingEntity): DrawingChangePatch | null {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof DrawingEntity)[]);
+  const changed = [...keys].filter((key) => !sameField(key, previous, next));
+  if (changed.length === 0) {
+    return null;
+  }
+  const copy = cloneEntity(next);
+  return Object.fromEntries(changed.map((key) => [key, copy[key]])) as DrawingChangePatch;
 }
 
 function normalizeZ(drawings: DrawingEntity[]): DrawingEntity[] {
@@ -96,6 +190,34 @@ function normalizeZ(drawings: DrawingEntity[]): DrawingEntity[] {
   }));
 }
 
+function assertValidPoints(tool: ToolDefinition, points: DrawingPoint[]): void {
+  if (points.length < tool.minPoints || points.length > tool.maxPoints) {
+    throw new Error(
+      `Tool ${tool.id} expects ${tool.minPoints}-${tool.maxPoints} points, got ${points.length}`
+    );
+  }
+  for (const point of points) {
+    if (!Number.isFinite(point.logical) || !Number.isFinite(point.price)) {
+      throw new Error(`Invalid point for tool ${tool.id}: ${point.logical}, ${point.price}`);
+    }
+  }
+}
+
+// Hook points are clamped to the tool's maximum; output with a non-finite point is ignored.
+function hookPoints(tool: ToolDefinition, points: DrawingPoint[]): DrawingPoint[] | null {
+  if (points.some((point) => !Number.isFinite(point.logical) || !Number.isFinite(point.price))) {
+    return null;
+  }
+  return points.slice(0, tool.maxPoints).map((point) => ({ ...point }));
+}
+
+function creationMode(tool: ToolDefinition): CreationMode {
+  if (tool.creationMode) {
+    return tool.creationMode;
+  }
+  return !tool.continuous && tool.maxPoints > 2 ? "click" : "drag";
+}
+
 function modifierUndo(input: KeyboardInput): boolean {
   return (input.ctrlKey ?? false) || (input.metaKey ?? false);
 }
@@ -117,7 +239,11 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
 
   const state: EngineMutableState = {
     activeTool: opts.initialTool,
+    resolution: null,
+    snapTarget: null,
+    hover: null,
     drawings: new Map(),
+    groups: new Map(),
     selection: new Set(),
     primaryId: null,
     interaction: { mode: "idle" },
@@ -134,7 +260,11 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
   };
 
   const subscribers = new Set<EngineSubscriber>();
-  const history = new HistoryStore(opts.historyLimit);
+  const changeHandlers = new Map<EngineChangeType, Set<(change: EngineChange) => void>>();
+  let history = new HistoryStore(opts.historyLimit);
+  let documentKey = DEFAULT_DOCUMENT_KEY;
+  // Inactive documents; the active one lives in `state` and `history`.
+  const documents = new Map<string, DocumentState>();
   const index = new SpatialIndex();
   let lastViewport: EngineViewport = {
     logicalPerPixel: 1,
@@ -144,12 +274,89 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
   const supportsRaf = typeof globalThis.requestAnimationFrame === "function";
   let emitQueued = false;
   let queuedReason: EngineReason = "drawings";
+  const transactionStack: EntitySnapshot[] = [];
+  let timeResolver: TimeResolver | null = null;
+  let barData: BarDataProvider | null = null;
+  let transactionReason: EngineReason | null = null;
 
-  const sortedDrawings = (): DrawingEntity[] =>
+  const allDrawings = (): DrawingEntity[] =>
     [...state.drawings.values()].sort((a, b) => a.zIndex - b.zIndex);
 
-  const rebuildIndex = (viewport: EngineViewport, tolerancePx: number): void => {
-    index.rebuild(sortedDrawings(), viewport, tolerancePx);
+  const shownAtResolution = (drawing: DrawingEntity): boolean =>
+    isVisibleAtResolution(drawing.visibility, state.resolution);
+
+  // Drawings shown at the current resolution; interaction and hit testing only see these.
+  const sortedDrawings = (): DrawingEntity[] => allDrawings().filter(shownAtResolution);
+
+  // Registered tools may override handles, bounds and hit testing; built-ins use geometry.ts.
+  const handlesOf = (drawing: DrawingEntity): DrawingPoint[] => {
+    const tool = toolRegistry.get(drawing.tool);
+    return tool?.handles ? tool.handles(cloneEntity(drawing)) : drawing.points;
+  };
+
+  const extentOf = (drawing: DrawingEntity): IndexExtent => {
+    const tool = toolRegistry.get(drawing.tool);
+    if (!tool?.bbox) {
+      return entityExtent(drawing);
+    }
+    return {
+      bbox: tool.bbox(cloneEntity(drawing)),
+      paddingPx: tool.bboxPaddingPx ?? 0
+    };
+  };
+
+  const hitTestDrawing = (
+    drawing: DrawingEntity,
+    point: DrawingPoint,
+    viewport: EngineViewport,
+    tolerancePx: number
+  ): HitTestResult | null => {
+    const tool = toolRegistry.get(drawing.tool);
+    if (!tool?.hitTest) {
+      return hitTestEntity(drawing, point, viewport, tolerancePx, handlesOf(drawing));
+    }
+    if (!drawing.visible) {
+      return null;
+    }
+    return (
+      hitTestHandles(handlesOf(drawing), point, viewport, tolerancePx) ??
+      tool.hitTest(cloneEntity(drawing), point, viewport, tolerancePx)
+    );
+  };
+
+  // Ids edited since the last emit. Every edit reindexes its drawings, so the index updates double
+  // as the change log; whole-document loads mark everything.
+  const changedIds = new Set<string>();
+  let allChanged = true;
+
+  // The index holds every drawing of the active document; visibility is filtered at query time.
+  const indexIds = (ids: Iterable<string>): void => {
+    for (const id of ids) {
+      changedIds.add(id);
+      const drawing = state.drawings.get(id);
+      if (drawing) {
+        index.upsert(id, extentOf(drawing));
+      } else {
+        index.remove(id);
+      }
+    }
+  };
+
+  const reindexAll = (): void => {
+    allChanged = true;
+    index.load([...state.drawings].map(([id, drawing]) => [id, extentOf(drawing)]));
+  };
+
+  // Visible, shown candidates from an index query, bottom-most first.
+  const indexedDrawings = (ids: string[]): DrawingEntity[] => {
+    const drawings: DrawingEntity[] = [];
+    for (const id of ids) {
+      const drawing = state.drawings.get(id);
+      if (drawing?.visible && shownAtResolution(drawing)) {
+        drawings.push(drawing);
+      }
+    }
+    return drawings.sort((a, b) => a.zIndex - b.zIndex);
   };
 
   const activeSelectionIds = (): string[] => {
@@ -168,18 +375,132 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     if (state.interaction.mode === "dragging-selection") {
       return "dragging-selection";
     }
+    if (state.interaction.mode === "editing-handle") {
+      return "editing-handle";
+    }
     if (state.interaction.mode === "marquee") {
       return "marquee";
     }
-    if (state.activeTool === "text" && state.interaction.mode === "idle") {
-      return "idle";
+    if (state.interaction.mode === "editing-text") {
+      return "editing-text";
     }
     return "idle";
   };
 
+  // Points from the last `onCreateMove` replace the placed points and preview until the next move.
+  const buildDraft = (interaction: CreatingInteraction): DrawingEntity => {
+    const { tool, draftId, points, preview, derivedPoints, metadata } = interaction;
+    const draftPoints = (derivedPoints ?? points).map((point) => ({ ...point }));
+    if (!derivedPoints && preview && draftPoints.length < tool.maxPoints) {
+      draftPoints.push({ ...preview });
+    }
+    return newEntity(tool, draftPoints, draftId, metadata);
+  };
+
+  const draftEntity = (): DrawingEntity | null => {
+    if (state.interaction.mode !== "creating" || state.interaction.pendingHold) {
+      return null;
+    }
+    const { tool } = state.interaction;
+    const entity = buildDraft(state.interaction);
+    return tool.normalize ? tool.normalize(entity) : entity;
+  };
+
+  const applyDraftUpdate = (interaction: CreatingInteraction, update: ToolDraftUpdate): void => {
+    if (update.metadata) {
+      interaction.metadata = { ...update.metadata };
+    }
+  };
+
+  const runCreateHook = (
+    interaction: CreatingInteraction,
+    hook: ToolCreateHook | undefined,
+    input: PointerInput | null
+  ): DrawingPoint[] | null => {
+    if (!hook) {
+      return null;
+    }
+    const update = hook({
+      draft: buildDraft(interaction),
+      input,
+      viewport: input?.viewport ?? lastViewport
+    });
+    if (!update) {
+      return null;
+    }
+    applyDraftUpdate(interaction, update);
+    return update.points ? hookPoints(interaction.tool, update.points) : null;
+  };
+
+  const snapTargetView = (): SnapTarget | null => {
+    const mode = state.interaction.mode;
+    const placing =
+      mode === "creating" ||
+      mode === "editing-handle" ||
+      (mode === "idle" && state.activeTool !== "cursor");
+    return placing && state.snapTarget
+      ? {
+          ...state.snapTarget,
+          point: { ...state.snapTarget.point },
+          drawingIds: [...state.snapTarget.drawingIds]
+        }
+      : null;
+  };
+
+  const hoveredDrawing = (): DrawingEntity | null => {
+    const drawing = state.hover ? state.drawings.get(state.hover.id) : undefined;
+    return drawing?.visible && shownAtResolution(drawing) ? drawing : null;
+  };
+
+  // Horizontal and vertical lines only move along one axis.
+  const dragCursor = (drawing: DrawingEntity): EngineCursor => {
+    if (drawing.tool === "horizontal_line") {
+      return "ns-resize";
+    }
+    return drawing.tool === "vertical_line" ? "ew-resize" : "move";
+  };
+
+  const cursorView = (): EngineCursor => {
+    const interaction = state.interaction;
+    if (
+      interaction.mode === "creating" ||
+      (interaction.mode === "idle" && state.activeTool !== "cursor")
+    ) {
+      return "crosshair";
+    }
+    if (interaction.mode === "editing-handle") {
+      const drawing = state.drawings.get(interaction.id);
+      return drawing ? dragCursor(drawing) : "default";
+    }
+    const drawing = hoveredDrawing();
+    if (interaction.mode === "dragging-selection") {
+      return drawing ? dragCursor(drawing) : "move";
+    }
+    if (interaction.mode !== "idle" || !drawing) {
+      return "default";
+    }
+    if (drawing.locked) {
+      return "not-allowed";
+    }
+    // Unselected bodies select on click; handles and selected bodies drag.
+    return state.hover?.handleIndex !== null || state.selection.has(drawing.id)
+      ? dragCursor(drawing)
+      : "pointer";
+  };
+
   const stateView = (): EngineStateView => ({
     activeTool: state.activeTool,
-    drawings: sortedDrawings().map(cloneEntity),
+    documentKey,
+    resolution: state.resolution,
+    drawings: allDrawings().map(cloneEntity),
+    draft: draftEntity(),
+    snapTarget: snapTargetView(),
+    instrument: opts.instrument ? { ...opts.instrument } : null,
+    groups: activeGroups(),
+    editingTextId: state.interaction.mode === "editing-text" ? state.interaction.id : null,
+    hoveredId: hoveredDrawing()?.id ?? null,
+    hoveredHandle: hoveredDrawing() ? (state.hover?.handleIndex ?? null) : null,
+    cursor: cursorView(),
     selection: {
       ids: activeSelectionIds(),
       primaryId: state.primaryId,
@@ -198,22 +519,119 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       droppedFrames: metrics.droppedFrames,
       lastFrameMs: metrics.lastFrameMs,
       p95FrameMs: metrics.p95FrameMs,
-      lastHitTestMs: metrics.lastHitTestMs
+      lastHitTestMs: metrics.lastHitTestMs,
+      historyBytes: history.memoryUsage()
     },
     revision: state.revision
   });
 
+  // What subscribers last saw; each emit reports the difference. Drawings are shallow copies.
+  const emittedDrawings = new Map<string, DrawingEntity>();
+  let emittedSelection: string[] = [];
+  let emittedPrimaryId: string | null = null;
+  let emittedTool: ToolId = state.activeTool;
+  let emittedHistory = history;
+  let emittedHistoryRevision = history.revision();
+
+  const collectChanges = (): EngineChange[] => {
+    const changes: EngineChange[] = [];
+    const added: DrawingEntity[] = [];
+    const updated: string[] = [];
+    const patches: Record<string, DrawingChangePatch> = {};
+    const removed: string[] = [];
+    const ids = allChanged
+      ? new Set([...state.drawings.keys(), ...emittedDrawings.keys()])
+      : changedIds;
+    for (const id of ids) {
+      const drawing = state.drawings.get(id);
+      const previous = emittedDrawings.get(id);
+      if (!drawing) {
+        if (previous) {
+          removed.push(id);
+          emittedDrawings.delete(id);
+        }
+        continue;
+      }
+      const patch = previous ? changedFields(previous, drawing) : null;
+      if (!previous) {
+        added.push(cloneEntity(drawing));
+      } else if (patch) {
+        updated.push(id);
+        patches[id] = patch;
+      } else {
+        continue;
+      }
+      emittedDrawings.set(id, { ...drawing });
+    }
+    changedIds.clear();
+    allChanged = false;
+
+    if (added.length > 0) {
+      changes.push({
+        type: "drawings:added",
+        ids: added.map((drawing) => drawing.id),
+        drawings: added
+      });
+    }
+    if (updated.length > 0) {
+      changes.push({ type: "drawings:updated", ids: updated, patches });
+    }
+    if (removed.length > 0) {
+      changes.push({ type: "drawings:removed", ids: removed });
+    }
+
+    const selection = activeSelectionIds();
+    if (
+      state.primaryId !== emittedPrimaryId ||
+      selection.length !== emittedSelection.length ||
+      selection.some((id, i) => id !== emittedSelection[i])
+    ) {
+      emittedSelection = selection;
+      emittedPrimaryId = state.primaryId;
+      changes.push({ type: "selection:changed", ids: [...selection], primaryId: state.primaryId });
+    }
+
+    if (state.activeTool !== emittedTool) {
+      emittedTool = state.activeTool;
+      changes.push({ type: "tool:changed", tool: state.activeTool });
+    }
+
+    if (history !== emittedHistory || history.revision() !== emittedHistoryRevision) {
+      emittedHistory = history;
+      emittedHistoryRevision = history.revision();
+      changes.push({ type: "history:changed", ...history.depth() });
+    }
+    return changes;
+  };
+
   const emit = (reason: EngineReason): void => {
+    const changes = collectChanges();
+    // The full view clones every drawing, so it is only built if a subscriber reads it.
+    let view: EngineStateView | null = null;
     const event: EngineEvent = {
       reason,
-      state: stateView()
+      changes,
+      get state() {
+        view ??= stateView();
+        return view;
+      }
     };
+    for (const change of changes) {
+      for (const handler of changeHandlers.get(change.type) ?? []) {
+        handler(change);
+      }
+    }
     for (const subscriber of subscribers) {
       subscriber(event);
     }
   };
 
   const notify = (reason: EngineReason): void => {
+    if (transactionStack.length > 0) {
+      // Drawing changes take precedence so persistence listeners see the batched edit.
+      transactionReason = transactionReason === "drawings" ? "drawings" : reason;
+      return;
+    }
     state.revision += 1;
     if (!opts.emitOnAnimationFrame || !supportsRaf) {
       emit(reason);
@@ -230,14 +648,21 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     });
   };
 
+  // Drawings hidden at the current resolution can't be selected, so no edit reaches them unseen.
+  const selectable = (id: string): boolean => {
+    const drawing = state.drawings.get(id);
+    return drawing !== undefined && shownAtResolution(drawing);
+  };
+
   const selectionSet = (ids: string[]): void => {
-    state.selection = new Set(ids.filter((id) => state.drawings.has(id)));
-    state.primaryId = ids.length > 0 ? ids[ids.length - 1] ?? null : null;
+    const next = ids.filter(selectable);
+    state.selection = new Set(next);
+    state.primaryId = next.at(-1) ?? null;
   };
 
   const addSelection = (ids: string[]): void => {
     for (const id of ids) {
-      if (state.drawings.has(id)) {
+      if (selectable(id)) {
         state.selection.add(id);
         state.primaryId = id;
       }
@@ -251,6 +676,31 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     }
   };
 
+  const expandGroups = (ids: string[]): string[] => {
+    const groupIds = new Set<string>();
+    for (const id of ids) {
+      const groupId = state.drawings.get(id)?.groupId;
+      if (groupId) {
+        groupIds.add(groupId);
+      }
+    }
+    if (groupIds.size === 0) {
+      return ids;
+    }
+
+    // Members come first so the originally requested ids stay last (and primary).
+    const requested = new Set(ids);
+    const members: string[] = [];
+    for (const drawing of allDrawings()) {
+      if (drawing.groupId && groupIds.has(drawing.groupId) && !requested.has(drawing.id)) {
+        members.push(drawing.id);
+      }
+    }
+    return [...members, ...ids];
+  };
+
+  const activeGroups = (): DrawingGroup[] => groupsInUse(state.drawings.values(), state.groups);
+
   const now = (): number => Date.now();
 
   const toPoint = (input: PointerInput): DrawingPoint => {
@@ -268,40 +718,291 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       price: point.price
     };
 
+    // With an instrument, every snapped price lands on a valid tick.
+    const tick = opts.instrument ? priceStep(opts.instrument) : null;
+    const precision = opts.instrument?.pricePrecision;
     if (opts.snapMode === "strong") {
-      const step = Math.max(input.viewport.pricePerPixel * 5, 1e-4);
-      snapped.price = Math.round(snapped.price / step) * step;
+      const pixelStep = input.viewport.pricePerPixel * 5;
+      if (tick) {
+        const step = tick * Math.max(1, Math.round(pixelStep / tick));
+        snapped.price = roundToStep(snapped.price, step, precision);
+      } else {
+        const step = Math.max(pixelStep, 1e-4);
+        snapped.price = Math.round(snapped.price / step) * step;
+      }
+    } else if (tick) {
+      snapped.price = roundToStep(snapped.price, tick, precision);
+    }
+
+    if (opts.snapMode === "weak-magnet" || opts.snapMode === "strong-magnet") {
+      const bar = barData?.barAt(snapped.logical) ?? null;
+      if (!bar) {
+        return snapped;
+      }
+      const nearest = [bar.open, bar.high, bar.low, bar.close].reduce((best, value) =>
+        Math.abs(value - point.price) < Math.abs(best - point.price) ? value : best
+      );
+      const { logicalPerPixel, pricePerPixel } = input.viewport;
+      const distancePx = Math.hypot(
+        (snapped.logical - point.logical) / Math.max(logicalPerPixel, 1e-9),
+        (nearest - point.price) / Math.max(pricePerPixel, 1e-9)
+      );
+      if (opts.snapMode === "strong-magnet" || distancePx <= opts.magnetRadiusPx) {
+        snapped.price = nearest;
+      }
     }
 
     return snapped;
   };
 
+  // Points derived after grid snapping (Shift constraints, object snaps) are put back on a valid
+  // tick; constrained points also land on a bar, like any snapped pointer position.
+  const onTick = (point: DrawingPoint, wholeBars: boolean): DrawingPoint => {
+    if (opts.snapMode === "off") {
+      return point;
+    }
+    const tick = opts.instrument ? priceStep(opts.instrument) : null;
+    const next = { ...point };
+    if (wholeBars) {
+      next.logical = Math.round(next.logical);
+    }
+    if (tick) {
+      next.price = roundToStep(next.price, tick, opts.instrument?.pricePrecision);
+    }
+    return next;
+  };
+
+  const findObjectSnap = (
+    point: DrawingPoint,
+    viewport: EngineViewport,
+    excludeId?: string
+  ): SnapTarget | null => {
+    const radius = opts.objectSnapRadiusPx;
+    const candidates = indexedDrawings(index.queryPoint(point, viewport, radius)).filter(
+      (drawing) => drawing.id !== excludeId
+    );
+    return findSnapTargets(point, candidates, viewport, radius)[0] ?? null;
+  };
+
+  // Creation and handle drags prefer other drawings' anchors; otherwise grid/magnet snapping applies.
+  const toPlacementPoint = (input: PointerInput, excludeId?: string): DrawingPoint => {
+    const target = opts.objectSnap
+      ? findObjectSnap({ logical: input.logical, price: input.price }, input.viewport, excludeId)
+      : null;
+    state.snapTarget = target;
+    return target ? onTick(target.point, false) : toPoint(input);
+  };
+
+  // Shift locks line tools to 0°/45°/90° and rectangles to squares around `anchor`.
+  const constrainedPoint = (
+    tool: ToolId,
+    anchor: DrawingPoint | undefined,
+    input: PointerInput
+  ): DrawingPoint | null => {
+    if (!input.shiftKey || !anchor) {
+      return null;
+    }
+    if (ANGLE_CONSTRAINED_TOOLS.has(tool)) {
+      state.snapTarget = null;
+      return onTick(constrainAngle(anchor, toPoint(input), input.viewport), true);
+    }
+    if (tool === "rectangle") {
+      state.snapTarget = null;
+      return onTick(constrainSquare(anchor, toPoint(input), input.viewport), true);
+    }
+    return null;
+  };
+
+  const creationPoint = (interaction: CreatingInteraction, input: PointerInput): DrawingPoint => {
+    if (interaction.tool.continuous) {
+      return toPoint(input);
+    }
+    const anchor =
+      interaction.placement === "click" ? interaction.points.at(-1) : interaction.points[0];
+    return constrainedPoint(interaction.tool.id, anchor, input) ?? toPlacementPoint(input);
+  };
+
+  // The creating tool (or the active tool when idle) sees keys first; a truthy result consumes them.
+  const toolKeyDown = (input: KeyboardInput): boolean => {
+    const creating = state.interaction.mode === "creating" ? state.interaction : null;
+    const tool = creating ? creating.tool : toolRegistry.get(state.activeTool);
+    if (!tool?.onKeyDown) {
+      return false;
+    }
+    const result = tool.onKeyDown(input, {
+      draft: creating ? buildDraft(creating) : null,
+      selection: activeSelectionIds().flatMap((id) => {
+        const drawing = state.drawings.get(id);
+        return drawing ? [cloneEntity(drawing)] : [];
+      }),
+      viewport: lastViewport
+    });
+    if (!result) {
+      return false;
+    }
+    if (result !== true && creating) {
+      applyDraftUpdate(creating, result);
+      const points = result.points ? hookPoints(tool, result.points) : null;
+      if (points) {
+        creating.points = points;
+        creating.derivedPoints = null;
+      }
+    }
+    notify("keyboard");
+    return true;
+  };
+
+  const moveDraft = (interaction: CreatingInteraction, input: PointerInput): void => {
+    interaction.derivedPoints = null;
+    interaction.derivedPoints = runCreateHook(interaction, interaction.tool.onCreateMove, input);
+  };
+
+  const anchorPoint = (point: DrawingPoint): DrawingPoint => {
+    const next: DrawingPoint = { logical: point.logical, price: point.price };
+    const time = timeResolver?.logicalToTime(point.logical) ?? null;
+    if (time !== null) {
+      next.time = time;
+    }
+    return next;
+  };
+
+  // Time is the source of truth when present; unanchored points pick up a time from their index.
+  const resolvePoint = (point: DrawingPoint): DrawingPoint => {
+    if (!timeResolver) {
+      return point;
+    }
+    if (point.time === undefined) {
+      const anchored = anchorPoint(point);
+      return anchored.time === undefined ? point : anchored;
+    }
+    const logical = timeResolver.timeToLogical(point.time);
+    return logical === null || logical === point.logical ? point : { ...point, logical };
+  };
+
+  // Keeps the points array when nothing moved, so change events only report real moves.
+  const resolveEntity = (entity: DrawingEntity): DrawingEntity => {
+    if (timeResolver) {
+      const points = entity.points.map(resolvePoint);
+      if (points.some((point, index) => point !== entity.points[index])) {
+        entity.points = points;
+      }
+    }
+    return entity;
+  };
+
   const hitTolerance = (input: PointerInput): number =>
     input.pointerType === "touch" ? opts.hitTolerancePxTouch : opts.hitTolerancePxMouse;
 
-  const pushHistory = (label: string, before: DrawingEntity[], after: DrawingEntity[]): void => {
-    if (!styleChanged(before, after)) {
-      return;
+  const snapshotEntities = (ids: Iterable<string>): EntitySnapshot => {
+    const snapshot: EntitySnapshot = new Map();
+    for (const id of ids) {
+      const drawing = state.drawings.get(id);
+      snapshot.set(id, drawing ? cloneEntity(drawing) : null);
     }
-    history.push({
-      label,
-      before,
-      after,
-      at: now()
-    });
+    return snapshot;
   };
 
-  const applyDrawings = (entities: DrawingEntity[]): void => {
-    state.drawings.clear();
-    const normalized = normalizeZ(cloneEntities(entities));
-    for (const entity of normalized) {
-      state.drawings.set(entity.id, entity);
+  const pushHistory = (label: string, before: EntitySnapshot, mergeKey?: string): void => {
+    if (timeResolver) {
+      for (const id of before.keys()) {
+        const drawing = state.drawings.get(id);
+        if (drawing) {
+          drawing.points = drawing.points.map(anchorPoint);
+        }
+      }
     }
+    indexIds(before.keys());
+
+    const pending = transactionStack.at(-1);
+    if (pending) {
+      for (const [id, previous] of before) {
+        if (!pending.has(id)) {
+          pending.set(id, previous);
+        }
+      }
+      return;
+    }
+
+    const changes = diffEntities(before, state.drawings);
+    if (changes.length === 0) {
+      return;
+    }
+    history.push(
+      {
+        label,
+        changes,
+        at: now(),
+        ...(mergeKey !== undefined ? { mergeKey } : {})
+      },
+      opts.historyMergeMs
+    );
+  };
+
+  const syncSelection = (): void => {
     state.selection = new Set([...state.selection].filter((id) => state.drawings.has(id)));
     if (state.primaryId && !state.drawings.has(state.primaryId)) {
       state.primaryId = activeSelectionIds().at(-1) ?? null;
     }
-    rebuildIndex(lastViewport, opts.hitTolerancePxMouse);
+  };
+
+  const restoreEntities = (entries: Iterable<[string, DrawingEntity | null]>): void => {
+    const ids: string[] = [];
+    for (const [id, entity] of entries) {
+      if (entity) {
+        state.drawings.set(id, resolveEntity(cloneEntity(entity)));
+      } else {
+        state.drawings.delete(id);
+      }
+      ids.push(id);
+    }
+    syncSelection();
+    indexIds(ids);
+  };
+
+  const applyChanges = (changes: EntityChange[], direction: "before" | "after"): void => {
+    const ordered = direction === "before" ? [...changes].reverse() : changes;
+    restoreEntities(
+      ordered.map((change): [string, DrawingEntity | null] => [change.id, change[direction]])
+    );
+  };
+
+  // History and document swaps cannot be rolled back, so they are refused while a transaction is open.
+  const assertNoTransaction = (action: string): void => {
+    if (transactionStack.length > 0) {
+      throw new Error(`Cannot ${action} inside a transaction`);
+    }
+  };
+
+  const stashDocument = (): void => {
+    const { undoDepth, redoDepth } = history.depth();
+    if (state.drawings.size === 0 && undoDepth === 0 && redoDepth === 0) {
+      return;
+    }
+    documents.set(documentKey, {
+      drawings: state.drawings,
+      groups: state.groups,
+      selection: state.selection,
+      primaryId: state.primaryId,
+      history
+    });
+  };
+
+  const activateDocument = (key: string): void => {
+    const next = documents.get(key);
+    documents.delete(key);
+    documentKey = key;
+    state.drawings = next?.drawings ?? new Map();
+    state.groups = next?.groups ?? new Map();
+    state.selection = next?.selection ?? new Set();
+    state.primaryId = next?.primaryId ?? null;
+    history = next?.history ?? new HistoryStore(opts.historyLimit);
+    // The time resolver may have changed while this document was inactive.
+    for (const drawing of state.drawings.values()) {
+      resolveEntity(drawing);
+    }
+    state.interaction = { mode: "idle" };
+    state.hover = null;
+    reindexAll();
   };
 
   const highestZ = (): number => {
@@ -312,8 +1013,20 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     return max;
   };
 
-  const newEntity = (tool: ToolDefinition, points: DrawingPoint[]): DrawingEntity => {
-    const id = nanoid(10);
+  const lowestZ = (): number => {
+    let min = 0;
+    for (const drawing of state.drawings.values()) {
+      min = Math.min(min, drawing.zIndex);
+    }
+    return min;
+  };
+
+  const newEntity = (
+    tool: ToolDefinition,
+    points: DrawingPoint[],
+    id = nanoid(10),
+    metadata: Record<string, unknown> | null = null
+  ): DrawingEntity => {
     const base: DrawingEntity = {
       id,
       tool: tool.id,
@@ -331,44 +1044,64 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     if (tool.id === "text") {
       base.text = "Text";
     }
+    if (metadata) {
+      base.metadata = { ...metadata };
+    }
     return base;
   };
 
-  const topMostHit = (
-    point: DrawingPoint,
-    viewport: EngineViewport,
-    tolerancePx: number
-  ): { id: string; kind: "body" | "handle"; handleIndex?: number } | null => {
-    const startedAt = now();
-    const candidateIds = new Set(index.queryPoint(point.logical, point.price));
-    const drawings = sortedDrawings().reverse();
+  const duplicateDrawings = (ids: string[], delta: DrawingPoint): string[] => {
+    const copiedGroups = new Map<string, string>();
+    const copyIds: string[] = [];
 
-    for (const drawing of drawings) {
-      if (!drawing.visible) {
+    for (const id of ids) {
+      const drawing = state.drawings.get(id);
+      if (!drawing) {
         continue;
       }
-
-      if (candidateIds.size > 0 && !candidateIds.has(drawing.id)) {
-        continue;
+      const copy = cloneEntity(drawing);
+      copy.id = nanoid(10);
+      copy.zIndex = highestZ() + 1;
+      copy.points = copy.points.map((point) => translatePoint(point, delta));
+      copy.createdAt = now();
+      copy.updatedAt = now();
+
+      if (drawing.groupId) {
+        let groupId = copiedGroups.get(drawing.groupId);
+        if (!groupId) {
+          groupId = nanoid(10);
+          copiedGroups.set(drawing.groupId, groupId);
+          const source = state.groups.get(drawing.groupId);
+          state.groups.set(groupId, {
+            id: groupId,
+            ...(source?.name !== undefined ? { name: source.name } : {})
+          });
+        }
+        copy.groupId = groupId;
       }
 
-      const hit = hitTestEntity(drawing, point, viewport, tolerancePx);
-      if (hit) {
-        metrics.lastHitTestMs = now() - startedAt;
-        const base = {
-          id: drawing.id,
-          kind: hit.kind
-        } as const;
-        return {
-          ...base,
-          ...(hit.handleIndex !== undefined ? { handleIndex: hit.handleIndex } : {})
-        };
-      }
+      state.drawings.set(copy.id, copy);
+      copyIds.push(copy.id);
     }
 
-    // Fallback when viewport changed enough that the index is stale.
-    for (const drawing of drawings) {
-      const hit = hitTestEntity(drawing, point, viewport, tolerancePx);
+    return copyIds;
+  };
+
+  const sortByZ = (ids: string[]): string[] =>
+    ids
+      .filter((id) => state.drawings.has(id))
+      .sort((a, b) => (state.drawings.get(a)?.zIndex ?? 0) - (state.drawings.get(b)?.zIndex ?? 0));
+
+  const topMostHit = (
+    point: DrawingPoint,
+    viewport: EngineViewport,
+    tolerancePx: number
+  ): DrawingHit | null => {
+    const startedAt = now();
+    const candidates = indexedDrawings(index.queryPoint(point, viewport, tolerancePx)).reverse();
+
+    for (const drawing of candidates) {
+      const hit = hitTestDrawing(drawing, point, viewport, tolerancePx);
       if (hit) {
         metrics.lastHitTestMs = now() - startedAt;
         const base = {
@@ -386,21 +1119,76 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     return null;
   };
 
+  // Returns whether the hovered drawing or handle changed.
+  const setHover = (hit: { id: string; handleIndex?: number } | null): boolean => {
+    const next: HoverState | null = hit
+      ? { id: hit.id, handleIndex: hit.handleIndex ?? null }
+      : null;
+    if (next?.id === state.hover?.id && next?.handleIndex === state.hover?.handleIndex) {
+      return false;
+    }
+    state.hover = next;
+    return true;
+  };
+
   const startCreating = (input: PointerInput, tool: ToolDefinition): void => {
-    const before = cloneEntities(sortedDrawings());
-    const point = toPoint(input);
+    const point = tool.continuous ? toPoint(input) : toPlacementPoint(input);
+    const placement = creationMode(tool);
+    const draftId = nanoid(10);
 
     state.interaction = {
       mode: "creating",
       tool,
+      placement,
+      draftId,
       startedAt: now(),
       pointerType: input.pointerType,
       downScreen: { x: input.x, y: input.y },
       points: [point],
-      beforeSnapshot: before,
+      preview: null,
+      derivedPoints: null,
+      metadata: null,
+      beforeSnapshot: new Map([[draftId, null]]),
       pendingHold:
-        opts.enableHoldToDraw && input.pointerType === "touch" && tool.id !== "cursor" && !tool.continuous
+        opts.enableHoldToDraw &&
+        input.pointerType === "touch" &&
+        tool.id !== "cursor" &&
+        !tool.continuous &&
+        placement === "drag"
     };
+
+    const interaction = state.interaction;
+    const points = runCreateHook(interaction, tool.onCreateStart, input);
+    if (points) {
+      interaction.points = points;
+    }
+  };
+
+  const placeClickPoint = (input: PointerInput): void => {
+    if (state.interaction.mode !== "creating") {
+      return;
+    }
+    const interaction = state.interaction;
+    const point = creationPoint(interaction, input);
+    const last = interaction.points.at(-1);
+    if (!last || !equalPoints(last, point, input.viewport, 2)) {
+      interaction.points.push(point);
+    }
+    interaction.preview = null;
+  };
+
+  const completeClickCreation = (input: PointerInput | null = null): void => {
+    if (state.interaction.mode !== "creating") {
+      return;
+    }
+
+    const interaction = state.interaction;
+    state.interaction = { mode: "idle" };
+    if (interaction.points.length < interaction.tool.minPoints) {
+      notify("pointer");
+      return;
+    }
+    commitCreation(interaction, interaction.points.slice(0, interaction.tool.maxPoints), input);
   };
 
   const startDragSelection = (input: PointerInput): void => {
@@ -424,11 +1212,39 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     state.interaction = {
       mode: "dragging-selection",
       start: toPoint(input),
-      beforeSnapshot: cloneEntities(sortedDrawings()),
+      beforeSnapshot: snapshotEntities(originPoints.keys()),
       originPoints
     };
   };
 
+  const startEditHandle = (id: string, handleIndex: number): boolean => {
+    const drawing = state.drawings.get(id);
+    if (!drawing || drawing.locked || !handlesOf(drawing)[handleIndex]) {
+      return false;
+    }
+
+    state.interaction = {
+      mode: "editing-handle",
+      id,
+      handleIndex,
+      beforeSnapshot: snapshotEntities([id]),
+      originPoints: drawing.points.map((point) => ({ ...point }))
+    };
+    return true;
+  };
+
+  const moveHandle = (
+    drawing: DrawingEntity,
+    handleIndex: number,
+    point: DrawingPoint
+  ): DrawingPoint[] => {
+    const tool = toolRegistry.get(drawing.tool);
+    if (tool?.moveHandle) {
+      return tool.moveHandle(cloneEntity(drawing), handleIndex, point);
+    }
+    return drawing.points.map((current, index) => (index === handleIndex ? point : { ...current }));
+  };
+
   const applyMarqueeSelection = (
     start: DrawingPoint,
     current: DrawingPoint,
@@ -437,9 +1253,19 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     const selectionBounds = bboxFromPoints([start, current]);
     const matched: string[] = [];
 
-    for (const drawing of state.drawings.values()) {
+    // Bottom-most first, so the top-most match becomes the primary selection.
+    const candidates = index
+      .queryRect(selectionBounds, lastViewport, 0)
+      .flatMap((id) => {
+        const drawing = state.drawings.get(id);
+        return drawing && shownAtResolution(drawing) ? [drawing] : [];
+      })
+      .sort((a, b) => a.zIndex - b.zIndex);
+
+    for (const drawing of candidates) {
+      const tool = toolRegistry.get(drawing.tool);
       const drawingBounds = expandBBoxByPixels(
-        bboxFromPoints(drawing.points),
+        tool?.bbox ? tool.bbox(cloneEntity(drawing)) : bboxFromPoints(drawing.points),
         lastViewport,
         drawing.tool === "brush" ? 2 : 1
       );
@@ -449,7 +1275,7 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     }
 
     const next = new Set<string>(baseSelection);
-    for (const id of matched) {
+    for (const id of expandGroups(matched).filter(selectable)) {
       next.add(id);
     }
 
@@ -457,19 +1283,30 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     state.primaryId = [...next].at(-1) ?? null;
   };
 
-  const commitNewEntity = (tool: ToolDefinition, points: DrawingPoint[], beforeSnapshot: DrawingEntity[]): void => {
-    if (points.length < tool.minPoints) {
+  const commitCreation = (
+    interaction: CreatingInteraction,
+    points: DrawingPoint[],
+    input: PointerInput | null
+  ): void => {
+    const { tool, beforeSnapshot, draftId } = interaction;
+    interaction.points = points;
+    interaction.preview = null;
+    interaction.derivedPoints = null;
+    const finalPoints = runCreateHook(interaction, tool.onCreateEnd, input) ?? points;
+    if (finalPoints.length < tool.minPoints) {
+      notify("pointer");
       return;
     }
 
-    const entity = newEntity(tool, points);
+    const entity = newEntity(tool, finalPoints, draftId, interaction.metadata);
     const normalized = tool.normalize ? tool.normalize(entity) : entity;
     state.drawings.set(normalized.id, normalized);
     selectionSet([normalized.id]);
 
-    const after = cloneEntities(sortedDrawings());
-    pushHistory(`create:${tool.id}`, beforeSnapshot, after);
-    rebuildIndex(lastViewport, opts.hitTolerancePxMouse);
+    pushHistory(`create:${tool.id}`, beforeSnapshot);
+    if (normalized.tool === "text") {
+      beginTextEdit(normalized.id);
+    }
     notify("drawings");
   };
 
@@ -479,48 +1316,101 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
     }
 
     const interaction = state.interaction;
+    state.interaction = { mode: "idle" };
+
     const elapsed = now() - interaction.startedAt;
     if (
       interaction.pendingHold &&
       interaction.pointerType === "touch" &&
       elapsed < opts.holdToDrawMs
     ) {
-      state.interaction = { mode: "idle" };
       notify("pointer");
       return;
     }
 
-    const point = toPoint(input);
+    const point = creationPoint(interaction, input);
     const points = [...interaction.points];
 
     if (interaction.tool.continuous) {
       if (points.length < interaction.tool.minPoints) {
-        state.interaction = { mode: "idle" };
         notify("pointer");
         return;
       }
-      commitNewEntity(interaction.tool, points, interaction.beforeSnapshot);
-      state.interaction = { mode: "idle" };
+      commitCreation(interaction, points, input);
       return;
     }
 
     if (interaction.tool.maxPoints === 1) {
       const first = points[0] ?? point;
-      commitNewEntity(interaction.tool, [first], interaction.beforeSnapshot);
-      state.interaction = { mode: "idle" };
+      commitCreation(interaction, [first], input);
       return;
     }
 
     const first = points[0] ?? point;
     const second = points[1] ?? point;
     if (equalPoints(first, second, input.viewport, 2)) {
-      state.interaction = { mode: "idle" };
       notify("pointer");
       return;
     }
 
-    commitNewEntity(interaction.tool, [first, second], interaction.beforeSnapshot);
+    // The drag places the first two points; tools that need more continue click by click.
+    if (interaction.tool.minPoints > 2) {
+      interaction.points = [first, second];
+      interaction.placement = "click";
+      interaction.preview = null;
+      state.interaction = interaction;
+      notify("pointer");
+      return;
+    }
+
+    commitCreation(interaction, [first, second], input);
+  };
+
+  const beginTextEdit = (id: string): boolean => {
+    const drawing = state.drawings.get(id);
+    if (!drawing || drawing.tool !== "text" || drawing.locked || !drawing.visible) {
+      return false;
+    }
+    if (state.interaction.mode === "editing-text") {
+      if (state.interaction.id === id) {
+        return true;
+      }
+      endTextEdit(true);
+    }
+
+    selectionSet([id]);
+    state.interaction = {
+      mode: "editing-text",
+      id,
+      beforeSnapshot: snapshotEntities([id]),
+      originalText: drawing.text
+    };
+    return true;
+  };
+
+  const endTextEdit = (commit: boolean): void => {
+    if (state.interaction.mode !== "editing-text") {
+      return;
+    }
+
+    const interaction = state.interaction;
     state.interaction = { mode: "idle" };
+    const drawing = state.drawings.get(interaction.id);
+    if (!drawing) {
+      return;
+    }
+
+    if (!commit) {
+      if (interaction.originalText === undefined) {
+        delete drawing.text;
+      } else {
+        drawing.text = interaction.originalText;
+      }
+      changedIds.add(drawing.id);
+      return;
+    }
+
+    pushHistory("edit-text", interaction.beforeSnapshot);
   };
 
   const keyboardMoveSelection = (dxPx: number, dyPx: number): void => {
@@ -529,7 +1419,7 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       return;
     }
 
-    const before = cloneEntities(sortedDrawings());
+    const before = snapshotEntities(selected);
     const delta: DrawingPoint = {
       logical: dxPx * lastViewport.logicalPerPixel,
       price: dyPx * lastViewport.pricePerPixel
@@ -544,9 +1434,7 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       drawing.updatedAt = now();
     }
 
-    const after = cloneEntities(sortedDrawings());
-    pushHistory("move-selection:keyboard", before, after);
-    rebuildIndex(lastViewport, opts.hitTolerancePxMouse);
+    pushHistory("move-selection:keyboard", before);
     notify("drawings");
   };
 
@@ -555,8 +1443,10 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       if (!toolRegistry.has(tool)) {
         throw new Error(`Unknown tool: ${tool}`);
       }
+      endTextEdit(true);
       state.activeTool = tool;
       state.interaction = { mode: "idle" };
+      state.hover = null;
       notify("tool");
     },
 
@@ -568,32 +1458,67 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
           ...opts.defaultStyle,
           ...(nextOptions.defaultStyle ?? {})
         }
-      };
-      notify("tool");
+      };
+      notify("tool");
+    },
+
+    setTimeResolver(resolver) {
+      timeResolver = resolver;
+      const moved: string[] = [];
+      for (const drawing of state.drawings.values()) {
+        const { points } = drawing;
+        if (resolveEntity(drawing).points !== points) {
+          moved.push(drawing.id);
+        }
+      }
+      indexIds(moved);
+      notify("drawings");
+    },
+
+    setBarDataProvider(provider) {
+      barData = provider;
+    },
+
+    setCurrentResolution(resolution) {
+      if (state.resolution === resolution) {
+        return;
+      }
+      state.resolution = resolution;
+      selectionSet(
+        activeSelectionIds().filter((id) => {
+          const drawing = state.drawings.get(id);
+          return drawing ? shownAtResolution(drawing) : false;
+        })
+      );
+      notify("drawings");
     },
 
     registerTool(definition) {
       toolRegistry.set(definition.id, definition);
+      reindexAll();
       notify("tool");
     },
 
     pointerDown(input) {
       lastViewport = input.viewport;
+      endTextEdit(true);
       const tolerance = hitTolerance(input);
-      rebuildIndex(input.viewport, tolerance);
       const point = toPoint(input);
 
       if (state.activeTool === "cursor") {
         const hit = topMostHit(point, input.viewport, tolerance);
+        setHover(hit);
         if (hit) {
           if (input.shiftKey) {
             if (state.selection.has(hit.id)) {
-              removeSelection(hit.id);
+              for (const id of expandGroups([hit.id])) {
+                removeSelection(id);
+              }
             } else {
-              addSelection([hit.id]);
+              addSelection(expandGroups([hit.id]));
             }
           } else if (!state.selection.has(hit.id)) {
-            selectionSet([hit.id]);
+            selectionSet(expandGroups([hit.id]));
           }
 
           const canDrag =
@@ -601,33 +1526,26 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
             input.button !== 2 &&
             activeSelectionIds().some((id) => !state.drawings.get(id)?.locked);
 
+          if (
+            canDrag &&
+            !input.altKey &&
+            hit.kind === "handle" &&
+            hit.handleIndex !== undefined &&
+            startEditHandle(hit.id, hit.handleIndex)
+          ) {
+            notify("pointer");
+            return;
+          }
+
           if (canDrag) {
             if (input.altKey && activeSelectionIds().length > 0) {
-              const before = cloneEntities(sortedDrawings());
-              const duplicateIds: string[] = [];
-              const delta = {
+              const duplicateIds = duplicateDrawings(activeSelectionIds(), {
                 logical: input.viewport.logicalPerPixel * 14,
                 price: input.viewport.pricePerPixel * -14
-              };
-
-              for (const id of activeSelectionIds()) {
-                const drawing = state.drawings.get(id);
-                if (!drawing) {
-                  continue;
-                }
-                const copy = cloneEntity(drawing);
-                copy.id = nanoid(10);
-                copy.points = copy.points.map((p) => translatePoint(p, delta));
-                copy.createdAt = now();
-                copy.updatedAt = now();
-                copy.zIndex = highestZ() + 1;
-                state.drawings.set(copy.id, copy);
-                duplicateIds.push(copy.id);
-              }
+              });
 
               selectionSet(duplicateIds);
-              const after = cloneEntities(sortedDrawings());
-              pushHistory("duplicate:alt-drag", before, after);
+              pushHistory("duplicate:alt-drag", new Map(duplicateIds.map((id) => [id, null])));
             }
             startDragSelection(input);
           } else {
@@ -649,6 +1567,12 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
         return;
       }
 
+      if (state.interaction.mode === "creating" && state.interaction.placement === "click") {
+        placeClickPoint(input);
+        notify("pointer");
+        return;
+      }
+
       const tool = toolRegistry.get(state.activeTool);
       if (!tool) {
         return;
@@ -663,7 +1587,14 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
 
       if (state.interaction.mode === "creating") {
         const interaction = state.interaction;
-        const point = toPoint(input);
+        const point = creationPoint(interaction, input);
+
+        if (interaction.placement === "click") {
+          interaction.preview = point;
+          moveDraft(interaction, input);
+          notify("pointer");
+          return;
+        }
 
         if (interaction.pendingHold) {
           const elapsed = now() - interaction.startedAt;
@@ -693,16 +1624,19 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
           }
         }
 
+        moveDraft(interaction, input);
         notify("pointer");
         return;
       }
 
       if (state.interaction.mode === "dragging-selection") {
         const interaction = state.interaction;
-        const delta: DrawingPoint = {
-          logical: toPoint(input).logical - interaction.start.logical,
-          price: toPoint(input).price - interaction.start.price
+        const current = toPoint(input);
+        const offset: DrawingPoint = {
+          logical: current.logical - interaction.start.logical,
+          price: current.price - interaction.start.price
         };
+        const delta = input.shiftKey ? constrainAxis(offset, input.viewport) : offset;
 
         for (const [id, points] of interaction.originPoints.entries()) {
           const drawing = state.drawings.get(id);
@@ -713,7 +1647,31 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
           drawing.updatedAt = now();
         }
 
-        rebuildIndex(input.viewport, hitTolerance(input));
+        indexIds(interaction.originPoints.keys());
+        notify("drawings");
+        return;
+      }
+
+      if (state.interaction.mode === "editing-handle") {
+        const interaction = state.interaction;
+        const drawing = state.drawings.get(interaction.id);
+        if (!drawing || drawing.locked) {
+          return;
+        }
+        const origin: DrawingEntity = { ...drawing, points: interaction.originPoints };
+        // Shift constrains against the opposite handle; handles pair up as 0/1, 2/3 and so on.
+        const opposite =
+          interaction.originPoints.length === 2
+            ? handlesOf(origin)[interaction.handleIndex ^ 1]
+            : undefined;
+        drawing.points = moveHandle(
+          origin,
+          interaction.handleIndex,
+          constrainedPoint(drawing.tool, opposite, input) ?? toPlacementPoint(input, interaction.id)
+        );
+        drawing.updatedAt = now();
+
+        indexIds([interaction.id]);
         notify("drawings");
         return;
       }
@@ -726,6 +1684,31 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
           state.interaction.baseSelection
         );
         notify("selection");
+        return;
+      }
+
+      if (state.interaction.mode === "idle" && state.activeTool === "cursor") {
+        const hit = topMostHit(toPoint(input), input.viewport, hitTolerance(input));
+        if (setHover(hit)) {
+          notify("pointer");
+        }
+        return;
+      }
+
+      // Hovering with a placement tool previews the snap target the next click would use.
+      const hoverTool = toolRegistry.get(state.activeTool);
+      if (
+        state.interaction.mode === "idle" &&
+        opts.objectSnap &&
+        hoverTool &&
+        hoverTool.id !== "cursor" &&
+        !hoverTool.continuous
+      ) {
+        const previous = state.snapTarget;
+        toPlacementPoint(input);
+        if (previous || state.snapTarget) {
+          notify("pointer");
+        }
       }
     },
 
@@ -733,16 +1716,27 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       lastViewport = input.viewport;
 
       if (state.interaction.mode === "creating") {
+        if (state.interaction.placement === "click") {
+          if (state.interaction.points.length >= state.interaction.tool.maxPoints) {
+            completeClickCreation(input);
+          }
+          return;
+        }
         finishCreating(input);
         return;
       }
 
       if (state.interaction.mode === "dragging-selection") {
-        const before = state.interaction.beforeSnapshot;
-        const after = cloneEntities(sortedDrawings());
-        pushHistory("move-selection:pointer", before, after);
+        pushHistory("move-selection:pointer", state.interaction.beforeSnapshot);
+        state.interaction = { mode: "idle" };
+        notify("drawings");
+        return;
+      }
+
+      if (state.interaction.mode === "editing-handle") {
+        const tool = state.drawings.get(state.interaction.id)?.tool ?? "unknown";
+        pushHistory(`edit-handle:${tool}`, state.interaction.beforeSnapshot);
         state.interaction = { mode: "idle" };
-        rebuildIndex(input.viewport, hitTolerance(input));
         notify("drawings");
         return;
       }
@@ -753,7 +1747,28 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       }
     },
 
+    pointerLeave() {
+      const placing = state.interaction.mode === "idle" && state.snapTarget !== null;
+      if (!state.hover && !placing) {
+        return;
+      }
+      state.hover = null;
+      if (placing) {
+        state.snapTarget = null;
+      }
+      notify("pointer");
+    },
+
     keyDown(input) {
+      if (state.interaction.mode === "editing-text") {
+        if (input.key === "Escape") {
+          this.cancelTextEdit();
+        } else if (input.key === "Enter" && !input.shiftKey) {
+          this.commitTextEdit();
+        }
+        return;
+      }
+
       const isUndo = modifierUndo(input) && input.key.toLowerCase() === "z";
       const isRedo =
         modifierUndo(input) &&
@@ -768,7 +1783,28 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
         return;
       }
 
+      if (toolKeyDown(input)) {
+        return;
+      }
+
+      if (
+        input.key === "Enter" &&
+        state.interaction.mode === "creating" &&
+        state.interaction.placement === "click" &&
+        state.interaction.points.length >= state.interaction.tool.minPoints
+      ) {
+        completeClickCreation();
+        return;
+      }
+
       if (input.key === "Escape") {
+        if (state.interaction.mode === "editing-handle") {
+          const drawing = state.drawings.get(state.interaction.id);
+          if (drawing) {
+            drawing.points = state.interaction.originPoints;
+            indexIds([drawing.id]);
+          }
+        }
         state.interaction = { mode: "idle" };
         notify("keyboard");
         return;
@@ -810,38 +1846,223 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       // Reserved for modifier-state synchronization in host adapters.
     },
 
+    doubleClick(input) {
+      lastViewport = input.viewport;
+      if (state.interaction.mode === "creating" && state.interaction.placement === "click") {
+        placeClickPoint(input);
+        // Like Enter, a double-click only finishes once the tool has enough points.
+        if (state.interaction.points.length < state.interaction.tool.minPoints) {
+          notify("pointer");
+          return;
+        }
+        completeClickCreation(input);
+        return;
+      }
+      if (state.activeTool !== "cursor" && state.activeTool !== "text") {
+        return;
+      }
+      const tolerance = hitTolerance(input);
+      const hit = topMostHit(toPoint(input), input.viewport, tolerance);
+      if (hit && beginTextEdit(hit.id)) {
+        notify("pointer");
+      }
+    },
+
+    beginTextEdit(id) {
+      if (beginTextEdit(id)) {
+        notify("selection");
+      }
+    },
+
+    updateText(id, text) {
+      const drawing = state.drawings.get(id);
+      if (!drawing || drawing.locked || drawing.text === text) {
+        return;
+      }
+
+      const editing = state.interaction.mode === "editing-text" && state.interaction.id === id;
+      const before = editing ? null : snapshotEntities([id]);
+      drawing.text = text;
+      drawing.updatedAt = now();
+      if (before) {
+        pushHistory("edit-text", before);
+      } else {
+        changedIds.add(id);
+      }
+      notify("drawings");
+    },
+
+    commitTextEdit() {
+      if (state.interaction.mode !== "editing-text") {
+        return;
+      }
+      endTextEdit(true);
+      notify("drawings");
+    },
+
+    cancelTextEdit() {
+      if (state.interaction.mode !== "editing-text") {
+        return;
+      }
+      endTextEdit(false);
+      notify("drawings");
+    },
+
     undo() {
+      assertNoTransaction("undo");
+      endTextEdit(true);
       const frame = history.undo();
       if (!frame) {
         return;
       }
-      applyDrawings(frame.before);
+      applyChanges(frame.changes, "before");
       notify("history");
     },
 
     redo() {
+      assertNoTransaction("redo");
+      endTextEdit(true);
       const frame = history.redo();
       if (!frame) {
         return;
       }
-      applyDrawings(frame.after);
+      applyChanges(frame.changes, "after");
       notify("history");
     },
 
+    addDrawing(input) {
+      const tool = toolRegistry.get(input.tool);
+      if (!tool || tool.id === "cursor") {
+        throw new Error(`Unknown tool: ${input.tool}`);
+      }
+      if (input.id !== undefined && state.drawings.has(input.id)) {
+        throw new Error(`Drawing already exists: ${input.id}`);
+      }
+      assertValidPoints(tool, input.points);
+
+      const entity = newEntity(
+        tool,
+        input.points.map((point) => resolvePoint({ ...point })),
+        input.id ?? nanoid(10)
+      );
+      entity.style = { ...entity.style, ...(input.style ?? {}) };
+      if (input.text !== undefined) {
+        entity.text = input.text;
+      }
+      if (input.visible !== undefined) {
+        entity.visible = input.visible;
+      }
+      if (input.locked !== undefined) {
+        entity.locked = input.locked;
+      }
+      if (input.zIndex !== undefined) {
+        entity.zIndex = input.zIndex;
+      }
+      if (input.visibility) {
+        entity.visibility = cloneVisibility(input.visibility);
+      }
+      if (input.metadata) {
+        entity.metadata = { ...input.metadata };
+      }
+
+      const normalized = tool.normalize ? tool.normalize(entity) : entity;
+      state.drawings.set(normalized.id, normalized);
+      pushHistory(`add-drawing:${tool.id}`, new Map([[normalized.id, null]]));
+      notify("drawings");
+      return cloneEntity(normalized);
+    },
+
+    updateDrawing(id, patch) {
+      const drawing = state.drawings.get(id);
+      if (!drawing) {
+        throw new Error(`Unknown drawing: ${id}`);
+      }
+      const tool = toolRegistry.get(drawing.tool);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${drawing.tool}`);
+      }
+      if (patch.points) {
+        assertValidPoints(tool, patch.points);
+      }
+
+      const before = snapshotEntities([id]);
+      const next: DrawingEntity = {
+        ...drawing,
+        ...patch,
+        id: drawing.id,
+        tool: drawing.tool,
+        points: patch.points
+          ? patch.points.map((point) => resolvePoint({ ...point }))
+          : drawing.points.map((point) => ({ ...point })),
+        style: { ...drawing.style, ...(patch.style ?? {}) },
+        updatedAt: now()
+      };
+      if (patch.metadata) {
+        next.metadata = { ...patch.metadata };
+      }
+      if (patch.visibility) {
+        next.visibility = cloneVisibility(patch.visibility);
+      }
+
+      const normalized = tool.normalize ? tool.normalize(next) : next;
+      state.drawings.set(id, normalized);
+      pushHistory(`update-drawing:${drawing.tool}`, before);
+      notify("drawings");
+      return cloneEntity(normalized);
+    },
+
+    removeDrawings(ids) {
+      const existing = ids.filter((id) => state.drawings.has(id));
+      if (existing.length === 0) {
+        return;
+      }
+      const before = snapshotEntities(existing);
+      for (const id of existing) {
+        state.drawings.delete(id);
+        removeSelection(id);
+      }
+      if (
+        (state.interaction.mode === "editing-handle" ||
+          state.interaction.mode === "editing-text") &&
+        !state.drawings.has(state.interaction.id)
+      ) {
+        state.interaction = { mode: "idle" };
+      }
+      pushHistory("remove-drawings", before);
+      notify("drawings");
+    },
+
+    getDrawing(id) {
+      const drawing = state.drawings.get(id);
+      return drawing ? cloneEntity(drawing) : null;
+    },
+
+    getHandles(id) {
+      const drawing = state.drawings.get(id);
+      return drawing ? handlesOf(drawing).map((point) => ({ ...point })) : [];
+    },
+
+    hitTest(input) {
+      return topMostHit(toPoint(input), input.viewport, hitTolerance(input));
+    },
+
+    setSelection(ids) {
+      selectionSet(ids);
+      notify("selection");
+    },
+
     deleteSelection() {
       const ids = activeSelectionIds();
       if (ids.length === 0) {
         return;
       }
-      const before = cloneEntities(sortedDrawings());
+      const before = snapshotEntities(ids);
       for (const id of ids) {
         state.drawings.delete(id);
       }
       selectionSet([]);
       state.interaction = { mode: "idle" };
-      const after = cloneEntities(sortedDrawings());
-      pushHistory("delete-selection", before, after);
-      rebuildIndex(lastViewport, opts.hitTolerancePxMouse);
+      pushHistory("delete-selection", before);
       notify("drawings");
     },
 
@@ -855,12 +2076,100 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       notify("selection");
     },
 
+    setStyle(ids, style) {
+      const targets = ids.filter((id) => state.drawings.get(id)?.locked === false);
+      const keys = Object.keys(style).sort();
+      if (targets.length === 0 || keys.length === 0) {
+        return;
+      }
+      const before = snapshotEntities(targets);
+      for (const id of targets) {
+        const drawing = state.drawings.get(id);
+        if (!drawing) {
+          continue;
+        }
+        drawing.style = { ...drawing.style, ...style };
+        drawing.updatedAt = now();
+      }
+      pushHistory("style", before, `style:${keys.join(",")}:${[...targets].sort().join(",")}`);
+      notify("drawings");
+    },
+
+    setText(ids, text) {
+      const targets = ids.filter((id) => {
+        const drawing = state.drawings.get(id);
+        return drawing?.tool === "text" && !drawing.locked;
+      });
+      if (targets.length === 0) {
+        return;
+      }
+      const before = snapshotEntities(targets);
+      for (const id of targets) {
+        const drawing = state.drawings.get(id);
+        if (!drawing) {
+          continue;
+        }
+        drawing.text = text;
+        drawing.updatedAt = now();
+      }
+      pushHistory("text", before, `text:${[...targets].sort().join(",")}`);
+      notify("drawings");
+    },
+
+    groupSelection(name) {
+      const ids = activeSelectionIds();
+      if (ids.length === 0) {
+        return null;
+      }
+      const before = snapshotEntities(ids);
+      const groupId = nanoid(10);
+      state.groups.set(groupId, {
+        id: groupId,
+        ...(name !== undefined ? { name } : {})
+      });
+      for (const id of ids) {
+        const drawing = state.drawings.get(id);
+        if (!drawing) {
+          continue;
+        }
+        drawing.groupId = groupId;
+        drawing.updatedAt = now();
+      }
+      pushHistory("group", before);
+      notify("drawings");
+      return groupId;
+    },
+
+    ungroup(groupId) {
+      const members = [...state.drawings.values()].filter((drawing) => drawing.groupId === groupId);
+      if (members.length === 0) {
+        return;
+      }
+      const before = snapshotEntities(members.map((drawing) => drawing.id));
+      for (const drawing of members) {
+        delete drawing.groupId;
+        drawing.updatedAt = now();
+      }
+      pushHistory("ungroup", before);
+      notify("drawings");
+    },
+
+    renameGroup(groupId, name) {
+      const group = state.groups.get(groupId);
+      if (!group) {
+        throw new Error(`Unknown group: ${groupId}`);
+      }
+      group.name = name;
+      notify("drawings");
+    },
+
     setVisibility(ids, visible) {
       if (ids.length === 0) {
         return;
       }
-      const before = cloneEntities(sortedDrawings());
-      for (const id of ids) {
+      const targets = expandGroups(ids);
+      const before = snapshotEntities(targets);
+      for (const id of targets) {
         const drawing = state.drawings.get(id);
         if (!drawing) {
           continue;
@@ -868,9 +2177,7 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
         drawing.visible = visible;
         drawing.updatedAt = now();
       }
-      const after = cloneEntities(sortedDrawings());
-      pushHistory("visibility", before, after);
-      rebuildIndex(lastViewport, opts.hitTolerancePxMouse);
+      pushHistory("visibility", before);
       notify("drawings");
     },
 
@@ -878,8 +2185,9 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       if (ids.length === 0) {
         return;
       }
-      const before = cloneEntities(sortedDrawings());
-      for (const id of ids) {
+      const targets = expandGroups(ids);
+      const before = snapshotEntities(targets);
+      for (const id of targets) {
         const drawing = state.drawings.get(id);
         if (!drawing) {
           continue;
@@ -887,8 +2195,7 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
         drawing.locked = locked;
         drawing.updatedAt = now();
       }
-      const after = cloneEntities(sortedDrawings());
-      pushHistory("lock", before, after);
+      pushHistory("lock", before);
       notify("drawings");
     },
 
@@ -896,9 +2203,10 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       if (ids.length === 0) {
         return;
       }
-      const before = cloneEntities(sortedDrawings());
+      const targets = sortByZ(expandGroups(ids));
+      const before = snapshotEntities(targets);
       let z = highestZ();
-      for (const id of ids) {
+      for (const id of targets) {
         const drawing = state.drawings.get(id);
         if (!drawing) {
           continue;
@@ -908,10 +2216,7 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
         drawing.updatedAt = now();
       }
 
-      const normalized = normalizeZ(sortedDrawings());
-      applyDrawings(normalized);
-      const after = cloneEntities(sortedDrawings());
-      pushHistory("bring-to-front", before, after);
+      pushHistory("bring-to-front", before);
       notify("drawings");
     },
 
@@ -919,9 +2224,10 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       if (ids.length === 0) {
         return;
       }
-      const before = cloneEntities(sortedDrawings());
-      let z = -ids.length;
-      for (const id of ids) {
+      const targets = sortByZ(expandGroups(ids));
+      const before = snapshotEntities(targets);
+      let z = lowestZ() - targets.length;
+      for (const id of targets) {
         const drawing = state.drawings.get(id);
         if (!drawing) {
           continue;
@@ -931,10 +2237,7 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
         drawing.updatedAt = now();
       }
 
-      const normalized = normalizeZ(sortedDrawings());
-      applyDrawings(normalized);
-      const after = cloneEntities(sortedDrawings());
-      pushHistory("send-to-back", before, after);
+      pushHistory("send-to-back", before);
       notify("drawings");
     },
 
@@ -943,67 +2246,182 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       if (ids.length === 0) {
         return;
       }
-      const before = cloneEntities(sortedDrawings());
-      const nextIds: string[] = [];
-      const delta = {
+      const nextIds = duplicateDrawings(ids, {
         logical: lastViewport.logicalPerPixel * 18,
         price: lastViewport.pricePerPixel * -18
-      };
-
-      for (const id of ids) {
-        const drawing = state.drawings.get(id);
-        if (!drawing) {
-          continue;
-        }
-        const copy = cloneEntity(drawing);
-        copy.id = nanoid(10);
-        copy.zIndex = highestZ() + 1;
-        copy.points = copy.points.map((point) => translatePoint(point, delta));
-        copy.createdAt = now();
-        copy.updatedAt = now();
-        state.drawings.set(copy.id, copy);
-        nextIds.push(copy.id);
-      }
+      });
 
       selectionSet(nextIds);
-      const after = cloneEntities(sortedDrawings());
-      pushHistory("duplicate-selection", before, after);
-      rebuildIndex(lastViewport, opts.hitTolerancePxMouse);
+      pushHistory("duplicate-selection", new Map(nextIds.map((id) => [id, null])));
       notify("drawings");
     },
 
-    exportSnapshot(): DrawingSnapshotV1 {
+    setDocument(key) {
+      if (key === documentKey) {
+        return;
+      }
+      assertNoTransaction("switch documents");
+      endTextEdit(true);
+      stashDocument();
+      activateDocument(key);
+      notify("import");
+    },
+
+    listDocuments() {
+      return [...new Set([...documents.keys(), documentKey])].sort();
+    },
+
+    exportSnapshot(): DrawingSnapshotV3 {
+      const exported: DrawingSnapshotV3["documents"] = {};
+      for (const [key, document] of documents) {
+        const drawings = [...document.drawings.values()].sort((a, b) => a.zIndex - b.zIndex);
+        exported[key] = {
+          drawings: cloneEntities(drawings),
+          groups: groupsInUse(drawings, document.groups)
+        };
+      }
+      exported[documentKey] = {
+        drawings: cloneEntities(allDrawings()),
+        groups: activeGroups()
+      };
       return {
-        version: "1",
-        drawings: cloneEntities(sortedDrawings()),
-        groups: [],
+        version: SNAPSHOT_VERSION,
+        documents: exported,
+        activeDocument: documentKey,
         prefs: {
           activeTool: state.activeTool,
           snapMode: opts.snapMode
-        }
+        },
+        exportedAt: Date.now()
       };
     },
 
-    importSnapshot(snapshot) {
-      if (snapshot.version !== "1") {
-        throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+    importSnapshot(input, importOptions = {}) {
+      assertNoTransaction("import a snapshot");
+      const lenient = importOptions.mode === "lenient";
+      const result = validateSnapshot(input, { tools: toolRegistry.values() });
+      const fatal = result.errors.filter((issue) => issue.document === undefined);
+      if (fatal.length > 0 || (!lenient && result.errors.length > 0)) {
+        throw new SnapshotValidationError(result.errors);
+      }
+
+      const snapshot = migrateSnapshot(input);
+      const dropped = new Map<string, Set<number | undefined>>();
+      for (const issue of result.errors) {
+        const key = issue.document ?? "";
+        dropped.set(key, (dropped.get(key) ?? new Set()).add(issue.index));
+      }
+
+      let imported = 0;
+      documents.clear();
+      for (const [key, document] of Object.entries(snapshot.documents)) {
+        const droppedIndices = dropped.get(key);
+        if (droppedIndices?.has(undefined)) {
+          continue;
+        }
+        const groups = sanitizeGroups(document.groups);
+        const groupIds = new Set(groups.map((group) => group.id));
+        const drawings = (document.drawings as unknown[]).flatMap((raw, index) => {
+          if (droppedIndices?.has(index)) {
+            return [];
+          }
+          const record = raw as Record<string, unknown>;
+          const tool = toolRegistry.get(String(record.tool));
+          return [
+            sanitizeDrawing(
+              record,
+              { ...opts.defaultStyle, ...(tool?.defaultStyle ?? {}) },
+              groupIds,
+              index
+            )
+          ];
+        });
+        imported += drawings.length;
+        documents.set(key, {
+          drawings: new Map(normalizeZ(drawings).map((drawing) => [drawing.id, drawing])),
+          groups: new Map(groups.map((group) => [group.id, group])),
+          selection: new Set(),
+          primaryId: null,
+          history: new HistoryStore(opts.historyLimit)
+        });
+      }
+      activateDocument(
+        typeof snapshot.activeDocument === "string" && documents.has(snapshot.activeDocument)
+          ? snapshot.activeDocument
+          : documentKey
+      );
+
+      const prefs = snapshot.prefs as Partial<DrawingSnapshotV3["prefs"]> | undefined;
+      if (prefs?.activeTool !== undefined && toolRegistry.has(prefs.activeTool)) {
+        state.activeTool = prefs.activeTool;
+      }
+      if (prefs?.snapMode !== undefined && SNAP_MODES.includes(prefs.snapMode)) {
+        opts = {
+          ...opts,
+          snapMode: prefs.snapMode
+        };
       }
-      applyDrawings(snapshot.drawings);
-      state.activeTool = snapshot.prefs.activeTool;
-      opts = {
-        ...opts,
-        snapMode: snapshot.prefs.snapMode
-      };
-      selectionSet([]);
-      state.interaction = { mode: "idle" };
-      history.clear();
       notify("import");
+      return {
+        imported,
+        dropped: result.errors,
+        warnings: result.warnings
+      };
+    },
+
+    transaction(label, fn) {
+      const groups = new Map([...state.groups].map(([id, group]) => [id, { ...group }]));
+      const selection = [...state.selection];
+      const primaryId = state.primaryId;
+      const pending: EntitySnapshot = new Map();
+
+      transactionStack.push(pending);
+      let result: ReturnType<typeof fn>;
+      try {
+        result = fn();
+      } catch (error) {
+        transactionStack.pop();
+        restoreEntities(pending);
+        state.groups = groups;
+        state.selection = new Set(selection.filter((id) => state.drawings.has(id)));
+        state.primaryId = primaryId;
+        state.interaction = { mode: "idle" };
+        if (transactionStack.length === 0) {
+          transactionReason = null;
+        }
+        throw error;
+      }
+      transactionStack.pop();
+
+      // Nested transactions fold their pending changes into the parent here.
+      pushHistory(label, pending);
+      if (transactionStack.length === 0) {
+        const reason = transactionReason;
+        transactionReason = null;
+        if (reason) {
+          notify(reason);
+        }
+      }
+      return result;
     },
 
     getState() {
       return stateView();
     },
 
+    // Cheap reads for hot paths that would otherwise build (and clone) the whole state view.
+    getActiveTool() {
+      return state.activeTool;
+    },
+
+    getInteractionMode() {
+      return interactionMode();
+    },
+
+    getSelectedIds() {
+      return activeSelectionIds();
+    },
+
     subscribe(subscriber) {
       subscribers.add(subscriber);
       return () => {
@@ -1011,6 +2429,16 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
       };
     },
 
+    on(type, handler) {
+      const handlers = changeHandlers.get(type) ?? new Set();
+      const listener = handler as (change: EngineChange) => void;
+      handlers.add(listener);
+      changeHandlers.set(type, handlers);
+      return () => {
+        handlers.delete(listener);
+      };
+    },
+
     reportFrame(frameMs) {
       metrics.frames += 1;
       metrics.lastFrameMs = frameMs;
@@ -1031,7 +2459,8 @@ export function createDrawingEngine(options: Partial<EngineOptions> = {}): Drawi
   if (!toolRegistry.has(opts.initialTool)) {
     state.activeTool = "cursor";
   }
+  emittedTool = state.activeTool;
 
-  rebuildIndex(lastViewport, opts.hitTolerancePxMouse);
+  reindexAll();
   return engine;
 }
@@ -1,16 +1,13 @@
-import type { DrawingEntity, DrawingPoint, EngineViewport, ToolId } from "./types.js";
+import type {
+  DrawingEntity,
+  DrawingPoint,
+  EngineViewport,
+  HitTestResult,
+  ModelBBox,
+  ToolId
+} from "./types.js";
 
-export interface ModelBBox {
-  minLogical: number;
-  maxLogical: number;
-  minPrice: number;
-  maxPrice: number;
-}
-
-export interface HitTestResult {
-  kind: "body" | "handle";
-  handleIndex?: number;
-}
+export type { HitTestResult, ModelBBox };
 
 const EPS = 1e-9;
 const TEXT_BOX_WIDTH_PX = 130;
@@ -75,39 +72,63 @@ export function expandBBoxByPixels(
   };
 }
 
-export function entityBBox(entity: DrawingEntity, viewport: EngineViewport): ModelBBox {
-  const bbox = bboxFromPoints(entity.points);
+// Stands in for "the whole axis" in index boxes; finite, so R-tree area heuristics stay meaningful.
+const FAR = Number.MAX_SAFE_INTEGER;
 
-  if (entity.tool === "horizontal_line" && entity.points[0]) {
-    return {
-      minLogical: bbox.minLogical - viewport.logicalPerPixel * 4,
-      maxLogical: bbox.maxLogical + viewport.logicalPerPixel * 4,
-      minPrice: entity.points[0].price,
-      maxPrice: entity.points[0].price
-    };
+export interface IndexExtent {
+  bbox: ModelBBox;
+  // Screen-space reach beyond `bbox` (e.g. fixed-size text boxes), applied at query time.
+  paddingPx: number;
+}
+
+// The line through `a` and `b` (from `a` onward when `fromA`), clipped to ±FAR on both axes.
+function clippedLineBBox(a: DrawingPoint, b: DrawingPoint, fromA: boolean): ModelBBox {
+  const dLogical = b.logical - a.logical;
+  const dPrice = b.price - a.price;
+  let low = fromA ? 0 : -Infinity;
+  let high = Infinity;
+  for (const [origin, delta] of [
+    [a.logical, dLogical],
+    [a.price, dPrice]
+  ] as const) {
+    if (delta !== 0) {
+      const first = (-FAR - origin) / delta;
+      const second = (FAR - origin) / delta;
+      low = Math.max(low, Math.min(first, second));
+      high = Math.min(high, Math.max(first, second));
+    }
+  }
+  if (!Number.isFinite(high)) {
+    return bboxFromPoints([a, b]);
   }
+  return bboxFromPoints([
+    { logical: a.logical + low * dLogical, price: a.price + low * dPrice },
+    { logical: a.logical + high * dLogical, price: a.price + high * dPrice }
+  ]);
+}
 
-  if (entity.tool === "vertical_line" && entity.points[0]) {
+export function entityExtent(entity: DrawingEntity): IndexExtent {
+  const [a, b] = entity.points;
+  if (entity.tool === "horizontal_line" && a) {
     return {
-      minLogical: entity.points[0].logical,
-      maxLogical: entity.points[0].logical,
-      minPrice: bbox.minPrice - viewport.pricePerPixel * 4,
-      maxPrice: bbox.maxPrice + viewport.pricePerPixel * 4
+      bbox: { minLogical: -FAR, maxLogical: FAR, minPrice: a.price, maxPrice: a.price },
+      paddingPx: 0
     };
   }
-
-  if (entity.tool === "text" && entity.points[0]) {
-    const logicalWidth = viewport.logicalPerPixel * TEXT_BOX_WIDTH_PX;
-    const priceHeight = viewport.pricePerPixel * TEXT_BOX_HEIGHT_PX;
+  if (entity.tool === "vertical_line" && a) {
     return {
-      minLogical: entity.points[0].logical,
-      maxLogical: entity.points[0].logical + logicalWidth,
-      minPrice: entity.points[0].price - priceHeight,
-      maxPrice: entity.points[0].price
+      bbox: { minLogical: a.logical, maxLogical: a.logical, minPrice: -FAR, maxPrice: FAR },
+      paddingPx: 0
     };
   }
-
-  return bbox;
+  if ((entity.tool === "ray" || entity.tool === "extended_line") && a && b) {
+    return { bbox: clippedLineBBox(a, b, entity.tool === "ray"), paddingPx: 0 };
+  }
+  const bbox = bboxFromPoints(entity.points);
+  if (entity.tool === "text") {
+    return { bbox, paddingPx: Math.max(TEXT_BOX_WIDTH_PX, TEXT_BOX_HEIGHT_PX) };
+  }
+  return { bbox, paddingPx: 0 };
 }
 
 export function translatePoint(point: DrawingPoint, delta: DrawingPoint): DrawingPoint {
@@ -117,7 +138,7 @@ export function translatePoint(point: DrawingPoint, delta: DrawingPoint): Drawin
   };
 }
 
-function distPointPx(a: DrawingPoint, b: DrawingPoint, viewport: EngineViewport): number {
+export function distPointPx(a: DrawingPoint, b: DrawingPoint, viewport: EngineViewport): number {
   const dx = (a.logical - b.logical) / Math.max(viewport.logicalPerPixel, EPS);
   const dy = (a.price - b.price) / Math.max(viewport.pricePerPixel, EPS);
   return Math.hypot(dx, dy);
@@ -127,7 +148,7 @@ function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
-function segmentDistancePx(
+export function segmentDistancePx(
   p: DrawingPoint,
   a: DrawingPoint,
   b: DrawingPoint,
@@ -155,7 +176,7 @@ function segmentDistancePx(
   return distPointPx(p, proj, viewport);
 }
 
-function rayDistancePx(
+export function rayDistancePx(
   p: DrawingPoint,
   a: DrawingPoint,
   b: DrawingPoint,
@@ -183,7 +204,7 @@ function rayDistancePx(
   return distPointPx(p, proj, viewport);
 }
 
-function lineDistancePx(
+export function lineDistancePx(
   p: DrawingPoint,
   a: DrawingPoint,
   b: DrawingPoint,
@@ -241,7 +262,7 @@ function nearRectEdge(
   );
 }
 
-function isLineTool(tool: ToolId): boolean {
+export function isLineTool(tool: ToolId): boolean {
   return (
     tool === "trend_line" ||
     tool === "arrow" ||
@@ -252,18 +273,14 @@ function isLineTool(tool: ToolId): boolean {
   );
 }
 
-export function hitTestEntity(
-  entity: DrawingEntity,
+export function hitTestHandles(
+  handles: DrawingPoint[],
   point: DrawingPoint,
   viewport: EngineViewport,
   tolerancePx: number
 ): HitTestResult | null {
-  if (!entity.visible) {
-    return null;
-  }
-
-  for (let index = 0; index < entity.points.length; index += 1) {
-    const handle = entity.points[index];
+  for (let index = 0; index < handles.length; index += 1) {
+    const handle = handles[index];
     if (!handle) {
       continue;
     }
@@ -271,6 +288,24 @@ export function hitTestEntity(
       return { kind: "handle", handleIndex: index };
     }
   }
+  return null;
+}
+
+export function hitTestEntity(
+  entity: DrawingEntity,
+  point: DrawingPoint,
+  viewport: EngineViewport,
+  tolerancePx: number,
+  handles: DrawingPoint[] = entity.points
+): HitTestResult | null {
+  if (!entity.visible) {
+    return null;
+  }
+
+  const handleHit = hitTestHandles(handles, point, viewport, tolerancePx);
+  if (handleHit) {
+    return handleHit;
+  }
 
   if (isLineTool(entity.tool) && entity.points.length >= 2) {
     const [a, b] = entity.points;
@@ -354,3 +389,47 @@ export function rectContainsBBox(selection: ModelBBox, entity: ModelBBox): boole
 export function equalPoints(a: DrawingPoint, b: DrawingPoint, viewport: EngineViewport, px = 1): boolean {
   return distPointPx(a, b, viewport) <= px;
 }
+
+// Shift-constraints work in screen pixels so 45° looks like 45° at any zoom.
+export function constrainAngle(
+  anchor: DrawingPoint,
+  point: DrawingPoint,
+  viewport: EngineViewport
+): DrawingPoint {
+  const logicalPerPixel = Math.max(viewport.logicalPerPixel, EPS);
+  const pricePerPixel = Math.max(viewport.pricePerPixel, EPS);
+  const dx = (point.logical - anchor.logical) / logicalPerPixel;
+  const dy = (point.price - anchor.price) / pricePerPixel;
+  const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+  const ux = Math.round(Math.cos(angle) * 1e9) / 1e9;
+  const uy = Math.round(Math.sin(angle) * 1e9) / 1e9;
+  const length = dx * ux + dy * uy;
+  return {
+    logical: anchor.logical + length * ux * logicalPerPixel,
+    price: anchor.price + length * uy * pricePerPixel
+  };
+}
+
+export function constrainSquare(
+  anchor: DrawingPoint,
+  point: DrawingPoint,
+  viewport: EngineViewport
+): DrawingPoint {
+  const logicalPerPixel = Math.max(viewport.logicalPerPixel, EPS);
+  const pricePerPixel = Math.max(viewport.pricePerPixel, EPS);
+  const dx = (point.logical - anchor.logical) / logicalPerPixel;
+  const dy = (point.price - anchor.price) / pricePerPixel;
+  const side = Math.max(Math.abs(dx), Math.abs(dy));
+  return {
+    logical: anchor.logical + (dx < 0 ? -side : side) * logicalPerPixel,
+    price: anchor.price + (dy < 0 ? -side : side) * pricePerPixel
+  };
+}
+
+export function constrainAxis(delta: DrawingPoint, viewport: EngineViewport): DrawingPoint {
+  const dx = delta.logical / Math.max(viewport.logicalPerPixel, EPS);
+  const dy = delta.price / Math.max(viewport.pricePerPixel, EPS);
+  return Math.abs(dx) >= Math.abs(dy)
+    ? { logical: delta.logical, price: 0 }
+    : { logical: 0, price: delta.price };
+}
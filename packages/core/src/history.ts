@@ -1,4 +1,21 @@
-import type { DrawingEntity, HistoryFrame } from "./types.js";
+import type {
+  DrawingEntity,
+  DrawingPoint,
+  DrawingStyle,
+  EntityChange,
+  HistoryFrame,
+  VisibilityRule
+} from "./types.js";
+
+export type EntitySnapshot = Map<string, DrawingEntity | null>;
+
+const ENTITY_BASE_BYTES = 320;
+const POINT_BYTES = 40;
+const METADATA_ENTRY_BYTES = 48;
+
+export function cloneVisibility(rule: VisibilityRule): VisibilityRule {
+  return rule.resolutions ? { ...rule, resolutions: [...rule.resolutions] } : { ...rule };
+}
 
 export function cloneEntity(entity: DrawingEntity): DrawingEntity {
   const cloned: DrawingEntity = {
@@ -9,6 +26,9 @@ export function cloneEntity(entity: DrawingEntity): DrawingEntity {
   if (entity.metadata) {
     cloned.metadata = { ...entity.metadata };
   }
+  if (entity.visibility) {
+    cloned.visibility = cloneVisibility(entity.visibility);
+  }
   return cloned;
 }
 
@@ -16,41 +36,207 @@ export function cloneEntities(entities: DrawingEntity[]): DrawingEntity[] {
   return entities.map(cloneEntity);
 }
 
+function samePoints(a: DrawingPoint[], b: DrawingPoint[]): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i += 1) {
+    const pa = a[i];
+    const pb = b[i];
+    if (!pa || !pb || pa.logical !== pb.logical || pa.price !== pb.price || pa.time !== pb.time) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function sameStyle(a: DrawingStyle, b: DrawingStyle): boolean {
+  return (
+    a.strokeColor === b.strokeColor &&
+    a.fillColor === b.fillColor &&
+    a.textColor === b.textColor &&
+    a.lineWidth === b.lineWidth &&
+    a.lineStyle === b.lineStyle &&
+    a.opacity === b.opacity &&
+    a.showLabel === b.showLabel
+  );
+}
+
+function sameVisibility(a: VisibilityRule | undefined, b: VisibilityRule | undefined): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return (
+    a.minResolution === b.minResolution &&
+    a.maxResolution === b.maxResolution &&
+    (a.resolutions ?? []).join(",") === (b.resolutions ?? []).join(",")
+  );
+}
+
+function sameMetadata(
+  a: Record<string, unknown> | undefined,
+  b: Record<string, unknown> | undefined
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+// Compares one entity field by value; nested fields are compared by content.
+export function sameField(key: keyof DrawingEntity, a: DrawingEntity, b: DrawingEntity): boolean {
+  switch (key) {
+    case "points":
+      return samePoints(a.points, b.points);
+    case "style":
+      return sameStyle(a.style, b.style);
+    case "visibility":
+      return sameVisibility(a.visibility, b.visibility);
+    case "metadata":
+      return sameMetadata(a.metadata, b.metadata);
+    default:
+      return a[key] === b[key];
+  }
+}
+
+export function sameEntity(a: DrawingEntity, b: DrawingEntity): boolean {
+  return (
+    a.zIndex === b.zIndex &&
+    a.visible === b.visible &&
+    a.locked === b.locked &&
+    a.text === b.text &&
+    a.groupId === b.groupId &&
+    sameVisibility(a.visibility, b.visibility) &&
+    sameMetadata(a.metadata, b.metadata) &&
+    samePoints(a.points, b.points) &&
+    sameStyle(a.style, b.style)
+  );
+}
+
+export function diffEntities(
+  before: EntitySnapshot,
+  current: Map<string, DrawingEntity>
+): EntityChange[] {
+  const changes: EntityChange[] = [];
+  for (const [id, previous] of before) {
+    const next = current.get(id) ?? null;
+    if (!previous && !next) {
+      continue;
+    }
+    if (previous && next && sameEntity(previous, next)) {
+      continue;
+    }
+    changes.push({
+      id,
+      before: previous,
+      after: next ? cloneEntity(next) : null
+    });
+  }
+  return changes;
+}
+
+export function estimateEntityBytes(entity: DrawingEntity | null): number {
+  if (!entity) {
+    return 0;
+  }
+  return (
+    ENTITY_BASE_BYTES +
+    entity.points.length * POINT_BYTES +
+    (entity.text?.length ?? 0) * 2 +
+    Object.keys(entity.metadata ?? {}).length * METADATA_ENTRY_BYTES
+  );
+}
+
+function estimateFrameBytes(frame: HistoryFrame): number {
+  let bytes = 0;
+  for (const change of frame.changes) {
+    bytes += estimateEntityBytes(change.before) + estimateEntityBytes(change.after);
+  }
+  return bytes;
+}
+
+function mergeChanges(into: EntityChange[], next: EntityChange[]): void {
+  for (const change of next) {
+    const existing = into.find((item) => item.id === change.id);
+    if (existing) {
+      existing.after = change.after;
+    } else {
+      into.push(change);
+    }
+  }
+}
+
 export class HistoryStore {
   private undoStack: HistoryFrame[] = [];
   private redoStack: HistoryFrame[] = [];
+  private mergeable = false;
+  private bytes = 0;
+  private version = 0;
 
   constructor(private readonly limit: number) {}
 
-  push(frame: HistoryFrame): void {
+  push(frame: HistoryFrame, mergeWindowMs = 0): void {
+    this.version += 1;
+    const last = this.undoStack.at(-1);
+    if (
+      mergeWindowMs > 0 &&
+      this.mergeable &&
+      last &&
+      frame.mergeKey !== undefined &&
+      last.mergeKey === frame.mergeKey &&
+      frame.at - last.at <= mergeWindowMs
+    ) {
+      this.bytes -= estimateFrameBytes(last);
+      mergeChanges(last.changes, frame.changes);
+      last.at = frame.at;
+      this.bytes += estimateFrameBytes(last);
+      return;
+    }
+
     this.undoStack.push(frame);
+    this.bytes += estimateFrameBytes(frame);
+    for (const dropped of this.redoStack) {
+      this.bytes -= estimateFrameBytes(dropped);
+    }
     this.redoStack = [];
+    this.mergeable = frame.mergeKey !== undefined;
     if (this.undoStack.length > this.limit) {
-      this.undoStack.shift();
+      const evicted = this.undoStack.shift();
+      if (evicted) {
+        this.bytes -= estimateFrameBytes(evicted);
+      }
     }
   }
 
   undo(): HistoryFrame | null {
+    this.mergeable = false;
     const frame = this.undoStack.pop() ?? null;
     if (!frame) {
       return null;
     }
+    this.version += 1;
     this.redoStack.push(frame);
     return frame;
   }
 
   redo(): HistoryFrame | null {
+    this.mergeable = false;
     const frame = this.redoStack.pop() ?? null;
     if (!frame) {
       return null;
     }
+    this.version += 1;
     this.undoStack.push(frame);
     return frame;
   }
 
   clear(): void {
+    this.version += 1;
+    this.mergeable = false;
     this.undoStack = [];
     this.redoStack = [];
+    this.bytes = 0;
   }
 
   depth(): { undoDepth: number; redoDepth: number } {
@@ -59,4 +245,13 @@ export class HistoryStore {
       redoDepth: this.redoStack.length
     };
   }
+
+  memoryUsage(): number {
+    return this.bytes;
+  }
+
+  // Bumped on every push, merge, undo, redo and clear.
+  revision(): number {
+    return this.version;
+  }
 }
@@ -1,23 +1,67 @@
 export { createDrawingEngine } from "./engine.js";
-export { DEFAULT_OPTIONS, DEFAULT_STYLE } from "./defaults.js";
+export { DEFAULT_DOCUMENT_KEY, DEFAULT_OPTIONS, DEFAULT_STYLE, SNAP_MODES } from "./defaults.js";
+export {
+  migrateSnapshot,
+  SNAPSHOT_VERSION,
+  SnapshotValidationError,
+  validateSnapshot
+} from "./snapshot.js";
+export { priceStep, roundToStep } from "./instrument.js";
+export { createBarTimeResolver } from "./time.js";
 export { BUILTIN_TOOLS } from "./tools.js";
+export { isVisibleAtResolution } from "./visibility.js";
 export type {
+  BarData,
+  BarDataProvider,
   BuiltinToolId,
+  CreationMode,
+  DrawingDocumentSnapshot,
+  DrawingChangePatch,
   DrawingEngine,
   DrawingEntity,
+  DrawingGroup,
+  DrawingHit,
+  DrawingInput,
   DrawingLineStyle,
+  DrawingPatch,
   DrawingPoint,
+  DrawingSnapshot,
   DrawingSnapshotV1,
+  DrawingSnapshotV2,
+  DrawingSnapshotV3,
   DrawingStyle,
+  EngineChange,
+  EngineChangeHandler,
+  EngineChangeType,
+  EngineCursor,
   EngineEvent,
   EngineMetrics,
   EngineOptions,
   EngineStateView,
   EngineSubscriber,
   EngineViewport,
+  EntityChange,
+  HistoryFrame,
+  HitTestResult,
+  InstrumentSpec,
   KeyboardInput,
+  ModelBBox,
   PointerInput,
   SelectionState,
+  SnapMode,
+  SnapTarget,
+  SnapTargetKind,
+  SnapshotImportOptions,
+  SnapshotImportReport,
+  SnapshotIssue,
+  SnapshotIssueCode,
+  SnapshotValidationResult,
+  TimeResolver,
+  ToolCreateContext,
+  ToolCreateHook,
   ToolDefinition,
-  ToolId
+  ToolDraftUpdate,
+  ToolKeyContext,
+  ToolId,
+  VisibilityRule
 } from "./types.js";
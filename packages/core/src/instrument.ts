@@ -0,0 +1,28 @@
+import type { InstrumentSpec } from "./types.js";
+
+const MAX_DECIMALS = 12;
+
+function decimalsOf(value: number): number {
+  let decimals = 0;
+  let scaled = value;
+  while (decimals < MAX_DECIMALS && Math.abs(scaled - Math.round(scaled)) > 1e-9 * scaled) {
+    decimals += 1;
+    scaled *= 10;
+  }
+  return decimals;
+}
+
+/**
+ * Smallest valid price increment: `tickSize * minMove`, or `null` when unusable. `minMove` counts
+ * whole ticks (like TradingView's `minmov`), unlike Lightweight Charts' price-valued `minMove`.
+ */
+export function priceStep(instrument: InstrumentSpec): number | null {
+  const step = instrument.tickSize * Math.max(1, Math.round(instrument.minMove));
+  return Number.isFinite(step) && step > 0 ? step : null;
+}
+
+/** Rounds `price` to a multiple of `step` without float noise (1.2345000000001 → 1.2345). */
+export function roundToStep(price: number, step: number, precision = 0): number {
+  const rounded = Math.round(price / step) * step;
+  return Number(rounded.toFixed(Math.min(Math.max(precision, decimalsOf(step)), MAX_DECIMALS)));
+}
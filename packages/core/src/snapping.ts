@@ -0,0 +1,194 @@
+import {
+  distPointPx,
+  isLineTool,
+  lineDistancePx,
+  rayDistancePx,
+  segmentDistancePx
+} from "./geometry.js";
+import type {
+  DrawingEntity,
+  DrawingPoint,
+  EngineViewport,
+  SnapTarget,
+  SnapTargetKind
+} from "./types.js";
+
+type LinearExtent = "segment" | "ray" | "line";
+
+interface LinearFeature {
+  a: DrawingPoint;
+  b: DrawingPoint;
+  extent: LinearExtent;
+  id: string;
+}
+
+const EPS = 1e-9;
+
+const KIND_PRIORITY: Record<SnapTargetKind, number> = {
+  endpoint: 0,
+  intersection: 1,
+  midpoint: 2,
+  price: 3
+};
+
+function linearFeatures(entity: DrawingEntity): LinearFeature[] {
+  const [a, b] = entity.points;
+  if (!a) {
+    return [];
+  }
+  if (entity.tool === "horizontal_line") {
+    return [{ a, b: { logical: a.logical + 1, price: a.price }, extent: "line", id: entity.id }];
+  }
+  if (entity.tool === "vertical_line") {
+    return [{ a, b: { logical: a.logical, price: a.price + 1 }, extent: "line", id: entity.id }];
+  }
+  if (!b) {
+    return [];
+  }
+  if (entity.tool === "rectangle") {
+    const corners = rectangleCorners(a, b);
+    return corners.map((corner, index) => ({
+      a: corner,
+      b: corners[(index + 1) % corners.length] ?? corner,
+      extent: "segment" as const,
+      id: entity.id
+    }));
+  }
+  if (!isLineTool(entity.tool)) {
+    return [];
+  }
+  const extent: LinearExtent =
+    entity.tool === "ray" ? "ray" : entity.tool === "extended_line" ? "line" : "segment";
+  return [{ a, b, extent, id: entity.id }];
+}
+
+function rectangleCorners(a: DrawingPoint, b: DrawingPoint): DrawingPoint[] {
+  return [
+    { logical: a.logical, price: a.price },
+    { logical: b.logical, price: a.price },
+    { logical: b.logical, price: b.price },
+    { logical: a.logical, price: b.price }
+  ];
+}
+
+function anchorPoints(entity: DrawingEntity): DrawingPoint[] {
+  const [a, b] = entity.points;
+  if (entity.tool === "rectangle" && a && b) {
+    return rectangleCorners(a, b);
+  }
+  if (entity.tool === "brush") {
+    const last = entity.points.at(-1);
+    return a && last ? [a, last] : [];
+  }
+  if (entity.tool === "horizontal_line" || entity.tool === "vertical_line") {
+    return [];
+  }
+  return entity.points;
+}
+
+function featureDistancePx(
+  point: DrawingPoint,
+  feature: LinearFeature,
+  viewport: EngineViewport
+): number {
+  if (feature.extent === "line") {
+    return lineDistancePx(point, feature.a, feature.b, viewport);
+  }
+  if (feature.extent === "ray") {
+    return rayDistancePx(point, feature.a, feature.b, viewport);
+  }
+  return segmentDistancePx(point, feature.a, feature.b, viewport);
+}
+
+function withinExtent(t: number, extent: LinearExtent): boolean {
+  if (extent === "segment") {
+    return t >= -EPS && t <= 1 + EPS;
+  }
+  return extent === "ray" ? t >= -EPS : true;
+}
+
+function intersect(first: LinearFeature, second: LinearFeature): DrawingPoint | null {
+  const rx = first.b.logical - first.a.logical;
+  const ry = first.b.price - first.a.price;
+  const sx = second.b.logical - second.a.logical;
+  const sy = second.b.price - second.a.price;
+  const cross = rx * sy - ry * sx;
+  if (Math.abs(cross) <= EPS * Math.hypot(rx, ry) * Math.hypot(sx, sy)) {
+    return null;
+  }
+  const qx = second.a.logical - first.a.logical;
+  const qy = second.a.price - first.a.price;
+  const t = (qx * sy - qy * sx) / cross;
+  const u = (qx * ry - qy * rx) / cross;
+  if (!withinExtent(t, first.extent) || !withinExtent(u, second.extent)) {
+    return null;
+  }
+  return { logical: first.a.logical + t * rx, price: first.a.price + t * ry };
+}
+
+/**
+ * Returns snap targets on `candidates` within `radiusPx` of `point`, best first
+ * (endpoints, then intersections, midpoints and horizontal-line prices; ties by distance).
+ */
+export function findSnapTargets(
+  point: DrawingPoint,
+  candidates: DrawingEntity[],
+  viewport: EngineViewport,
+  radiusPx: number
+): SnapTarget[] {
+  const targets: SnapTarget[] = [];
+  const consider = (kind: SnapTargetKind, target: DrawingPoint, drawingIds: string[]): void => {
+    const distancePx = distPointPx(point, target, viewport);
+    if (distancePx <= radiusPx) {
+      targets.push({
+        kind,
+        point: { logical: target.logical, price: target.price },
+        drawingIds,
+        distancePx
+      });
+    }
+  };
+
+  const nearby: LinearFeature[] = [];
+  for (const entity of candidates) {
+    for (const anchor of anchorPoints(entity)) {
+      consider("endpoint", anchor, [entity.id]);
+    }
+
+    const [a, b] = entity.points;
+    if (isLineTool(entity.tool) && a && b) {
+      consider(
+        "midpoint",
+        { logical: (a.logical + b.logical) / 2, price: (a.price + b.price) / 2 },
+        [entity.id]
+      );
+    }
+    if (entity.tool === "horizontal_line" && a) {
+      consider("price", { logical: point.logical, price: a.price }, [entity.id]);
+    }
+
+    for (const feature of linearFeatures(entity)) {
+      if (featureDistancePx(point, feature, viewport) <= radiusPx) {
+        nearby.push(feature);
+      }
+    }
+  }
+
+  for (let i = 0; i < nearby.length; i += 1) {
+    for (let j = i + 1; j < nearby.length; j += 1) {
+      const first = nearby[i];
+      const second = nearby[j];
+      if (!first || !second || first.id === second.id) {
+        continue;
+      }
+      const crossing = intersect(first, second);
+      if (crossing) {
+        consider("intersection", crossing, [first.id, second.id]);
+      }
+    }
+  }
+
+  return targets.sort(
+    (a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] || a.distancePx - b.distancePx
+  );
+}
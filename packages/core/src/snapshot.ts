@@ -0,0 +1,406 @@
+import { DEFAULT_DOCUMENT_KEY, SNAP_MODES } from "./defaults.js";
+import type {
+  DrawingEntity,
+  DrawingGroup,
+  DrawingLineStyle,
+  DrawingSnapshotV3,
+  DrawingStyle,
+  SnapMode,
+  SnapshotIssue,
+  SnapshotValidationResult,
+  ToolDefinition,
+  ToolId,
+  VisibilityRule
+} from "./types.js";
+
+export const SNAPSHOT_VERSION = "3";
+
+const LINE_STYLES: DrawingLineStyle[] = ["solid", "dashed", "dotted"];
+
+type Migration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<string, Migration> = {
+  "1": (snapshot) => ({
+    ...snapshot,
+    version: "2",
+    groups: Array.isArray(snapshot.groups) ? snapshot.groups : [],
+    exportedAt: 0
+  }),
+  "2": ({ drawings, groups, ...snapshot }) => ({
+    ...snapshot,
+    version: "3",
+    documents: { [DEFAULT_DOCUMENT_KEY]: { drawings, groups } },
+    activeDocument: DEFAULT_DOCUMENT_KEY
+  })
+};
+
+interface DocumentContext {
+  key: string;
+  path: string;
+  tools: Map<ToolId, ToolDefinition> | null;
+  groupIds: Set<string>;
+  seenIds: Set<string>;
+  errors: SnapshotIssue[];
+  warnings: SnapshotIssue[];
+}
+
+export class SnapshotValidationError extends Error {
+  constructor(readonly errors: SnapshotIssue[]) {
+    super(
+      `Invalid drawing snapshot: ${errors
+        .slice(0, 3)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join("; ")}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ""}`
+    );
+    this.name = "SnapshotValidationError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseVisibility(value: unknown): VisibilityRule | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const { resolutions, minResolution, maxResolution } = value;
+  if (
+    (resolutions !== undefined &&
+      !(Array.isArray(resolutions) && resolutions.every(isFiniteNumber))) ||
+    (minResolution !== undefined && !isFiniteNumber(minResolution)) ||
+    (maxResolution !== undefined && !isFiniteNumber(maxResolution))
+  ) {
+    return null;
+  }
+  return {
+    ...(resolutions !== undefined ? { resolutions: [...(resolutions as number[])] } : {}),
+    ...(minResolution !== undefined ? { minResolution } : {}),
+    ...(maxResolution !== undefined ? { maxResolution } : {})
+  };
+}
+
+export function migrateSnapshot(input: unknown): DrawingSnapshotV3 {
+  if (!isRecord(input)) {
+    throw new SnapshotValidationError([
+      { code: "invalid-snapshot", path: "$", message: "must be an object" }
+    ]);
+  }
+
+  let current = input;
+  const seen = new Set<unknown>();
+  while (current.version !== SNAPSHOT_VERSION) {
+    const { version } = current;
+    const migrate =
+      typeof version === "string" && Object.hasOwn(MIGRATIONS, version)
+        ? MIGRATIONS[version]
+        : undefined;
+    if (!migrate || seen.has(current.version)) {
+      throw new SnapshotValidationError([
+        {
+          code: "unsupported-version",
+          path: "$.version",
+          message: `unsupported snapshot version: ${String(current.version)}`
+        }
+      ]);
+    }
+    seen.add(current.version);
+    current = migrate(current);
+  }
+
+  return current as unknown as DrawingSnapshotV3;
+}
+
+function validateDrawing(raw: unknown, index: number, context: DocumentContext): void {
+  const { tools, groupIds, seenIds, errors, warnings } = context;
+  const path = `${context.path}.drawings[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push({
+      code: "invalid-drawing",
+      path,
+      document: context.key,
+      index,
+      message: "must be an object"
+    });
+    return;
+  }
+
+  const id = typeof raw.id === "string" && raw.id.length > 0 ? raw.id : undefined;
+  const issue = (code: SnapshotIssue["code"], field: string, message: string): SnapshotIssue => ({
+    code,
+    path: `${path}.${field}`,
+    document: context.key,
+    index,
+    message,
+    ...(id !== undefined ? { drawingId: id } : {})
+  });
+
+  if (id === undefined) {
+    errors.push(issue("invalid-drawing", "id", "must be a non-empty string"));
+  } else if (seenIds.has(id)) {
+    errors.push(issue("duplicate-id", "id", `duplicates an earlier drawing id '${id}'`));
+  } else {
+    seenIds.add(id);
+  }
+
+  const tool = typeof raw.tool === "string" ? raw.tool : undefined;
+  const definition = tool !== undefined ? tools?.get(tool) : undefined;
+  if (tool === undefined) {
+    errors.push(issue("invalid-drawing", "tool", "must be a string"));
+  } else if (tools && !definition) {
+    errors.push(issue("unknown-tool", "tool", `unknown tool '${tool}'`));
+  }
+
+  if (!Array.isArray(raw.points)) {
+    errors.push(issue("invalid-point", "points", "must be an array"));
+  } else {
+    raw.points.forEach((point: unknown, pointIndex) => {
+      if (!isRecord(point) || !isFiniteNumber(point.logical) || !isFiniteNumber(point.price)) {
+        errors.push(
+          issue("invalid-point", `points[${pointIndex}]`, "must have finite logical and price")
+        );
+      } else if (point.time !== undefined && !isFiniteNumber(point.time)) {
+        warnings.push(
+          issue(
+            "invalid-point",
+            `points[${pointIndex}].time`,
+            "must be finite; time anchor dropped"
+          )
+        );
+      }
+    });
+    if (
+      definition &&
+      (raw.points.length < definition.minPoints || raw.points.length > definition.maxPoints)
+    ) {
+      errors.push(
+        issue(
+          "point-count",
+          "points",
+          `expects ${definition.minPoints}-${definition.maxPoints} points, got ${raw.points.length}`
+        )
+      );
+    }
+  }
+
+  if (raw.text !== undefined && typeof raw.text !== "string") {
+    errors.push(issue("invalid-drawing", "text", "must be a string"));
+  }
+
+  if (!isRecord(raw.style)) {
+    warnings.push(issue("missing-field", "style", "missing; default style applied"));
+  } else {
+    const style = raw.style;
+    const missing = [
+      typeof style.strokeColor === "string" ? null : "strokeColor",
+      typeof style.fillColor === "string" ? null : "fillColor",
+      typeof style.textColor === "string" ? null : "textColor",
+      isFiniteNumber(style.lineWidth) ? null : "lineWidth",
+      LINE_STYLES.includes(style.lineStyle as DrawingLineStyle) ? null : "lineStyle",
+      isFiniteNumber(style.opacity) ? null : "opacity",
+      typeof style.showLabel === "boolean" ? null : "showLabel"
+    ].filter((field): field is string => field !== null);
+    for (const field of missing) {
+      warnings.push(
+        issue("missing-field", `style.${field}`, "missing or invalid; default applied")
+      );
+    }
+  }
+
+  for (const field of ["visible", "locked"] as const) {
+    if (typeof raw[field] !== "boolean") {
+      warnings.push(issue("missing-field", field, "missing or invalid; default applied"));
+    }
+  }
+  for (const field of ["zIndex", "createdAt", "updatedAt"] as const) {
+    if (!isFiniteNumber(raw[field])) {
+      warnings.push(issue("missing-field", field, "missing or invalid; default applied"));
+    }
+  }
+
+  if (raw.visibility !== undefined && !parseVisibility(raw.visibility)) {
+    warnings.push(issue("missing-field", "visibility", "invalid visibility rule; dropped"));
+  }
+
+  if (
+    raw.groupId !== undefined &&
+    (typeof raw.groupId !== "string" || !groupIds.has(raw.groupId))
+  ) {
+    warnings.push(issue("unknown-group", "groupId", "references an unknown group; cleared"));
+  }
+}
+
+function validateDocument(raw: unknown, context: DocumentContext): void {
+  const { key, path, errors, warnings } = context;
+  if (!isRecord(raw)) {
+    errors.push({ code: "invalid-snapshot", path, document: key, message: "must be an object" });
+    return;
+  }
+
+  if (!Array.isArray(raw.groups)) {
+    warnings.push({
+      code: "missing-field",
+      path: `${path}.groups`,
+      document: key,
+      message: "must be an array; ignored"
+    });
+  } else {
+    raw.groups.forEach((group: unknown, index) => {
+      if (isRecord(group) && typeof group.id === "string") {
+        context.groupIds.add(group.id);
+      } else {
+        warnings.push({
+          code: "missing-field",
+          path: `${path}.groups[${index}]`,
+          document: key,
+          message: "must have a string id; ignored"
+        });
+      }
+    });
+  }
+
+  if (!Array.isArray(raw.drawings)) {
+    errors.push({
+      code: "invalid-snapshot",
+      path: `${path}.drawings`,
+      document: key,
+      message: "must be an array"
+    });
+  } else {
+    raw.drawings.forEach((drawing: unknown, index) => validateDrawing(drawing, index, context));
+  }
+}
+
+export function validateSnapshot(
+  input: unknown,
+  options: { tools?: Iterable<ToolDefinition> } = {}
+): SnapshotValidationResult {
+  const errors: SnapshotIssue[] = [];
+  const warnings: SnapshotIssue[] = [];
+
+  let snapshot: DrawingSnapshotV3;
+  try {
+    snapshot = migrateSnapshot(input);
+  } catch (error) {
+    if (error instanceof SnapshotValidationError) {
+      return { valid: false, errors: error.errors, warnings };
+    }
+    throw error;
+  }
+
+  const raw = snapshot as unknown as Record<string, unknown>;
+  const tools = options.tools ? new Map([...options.tools].map((tool) => [tool.id, tool])) : null;
+
+  if (!isRecord(raw.documents)) {
+    errors.push({ code: "invalid-snapshot", path: "$.documents", message: "must be an object" });
+  } else {
+    for (const [key, document] of Object.entries(raw.documents)) {
+      validateDocument(document, {
+        key,
+        path: `$.documents[${JSON.stringify(key)}]`,
+        tools,
+        groupIds: new Set(),
+        seenIds: new Set(),
+        errors,
+        warnings
+      });
+    }
+    if (typeof raw.activeDocument !== "string" || !(raw.activeDocument in raw.documents)) {
+      warnings.push({
+        code: "missing-field",
+        path: "$.activeDocument",
+        message: "missing or unknown; current document kept"
+      });
+    }
+  }
+
+  const prefs = isRecord(raw.prefs) ? raw.prefs : null;
+  if (!prefs) {
+    warnings.push({ code: "missing-field", path: "$.prefs", message: "missing; preferences kept" });
+  } else {
+    if (typeof prefs.activeTool !== "string" || (tools !== null && !tools.has(prefs.activeTool))) {
+      warnings.push({
+        code: "unknown-tool",
+        path: "$.prefs.activeTool",
+        message: "unknown active tool; current tool kept"
+      });
+    }
+    if (!SNAP_MODES.includes(prefs.snapMode as SnapMode)) {
+      warnings.push({
+        code: "missing-field",
+        path: "$.prefs.snapMode",
+        message: "missing or invalid; current snap mode kept"
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+export function sanitizeDrawing(
+  raw: Record<string, unknown>,
+  defaultStyle: DrawingStyle,
+  groupIds: Set<string>,
+  index: number
+): DrawingEntity {
+  const style = isRecord(raw.style) ? raw.style : {};
+  const points = Array.isArray(raw.points) ? (raw.points as DrawingEntity["points"]) : [];
+  const entity: DrawingEntity = {
+    id: String(raw.id),
+    tool: String(raw.tool),
+    points: points.map((point) => ({
+      logical: point.logical,
+      price: point.price,
+      ...(isFiniteNumber(point.time) ? { time: point.time } : {})
+    })),
+    style: {
+      strokeColor:
+        typeof style.strokeColor === "string" ? style.strokeColor : defaultStyle.strokeColor,
+      fillColor: typeof style.fillColor === "string" ? style.fillColor : defaultStyle.fillColor,
+      textColor: typeof style.textColor === "string" ? style.textColor : defaultStyle.textColor,
+      lineWidth: isFiniteNumber(style.lineWidth) ? style.lineWidth : defaultStyle.lineWidth,
+      lineStyle: LINE_STYLES.includes(style.lineStyle as DrawingLineStyle)
+        ? (style.lineStyle as DrawingLineStyle)
+        : defaultStyle.lineStyle,
+      opacity: isFiniteNumber(style.opacity) ? style.opacity : defaultStyle.opacity,
+      showLabel: typeof style.showLabel === "boolean" ? style.showLabel : defaultStyle.showLabel
+    },
+    visible: typeof raw.visible === "boolean" ? raw.visible : true,
+    locked: typeof raw.locked === "boolean" ? raw.locked : false,
+    zIndex: isFiniteNumber(raw.zIndex) ? raw.zIndex : index,
+    createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : 0,
+    updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : 0
+  };
+  if (typeof raw.text === "string") {
+    entity.text = raw.text;
+  }
+  if (typeof raw.groupId === "string" && groupIds.has(raw.groupId)) {
+    entity.groupId = raw.groupId;
+  }
+  const visibility = parseVisibility(raw.visibility);
+  if (visibility) {
+    entity.visibility = visibility;
+  }
+  if (isRecord(raw.metadata)) {
+    entity.metadata = { ...raw.metadata };
+  }
+  return entity;
+}
+
+export function sanitizeGroups(raw: unknown): DrawingGroup[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter(
+      (group): group is Record<string, unknown> => isRecord(group) && typeof group.id === "string"
+    )
+    .map((group) => ({
+      id: String(group.id),
+      ...(typeof group.name === "string" ? { name: group.name } : {})
+    }));
+}
@@ -1,6 +1,6 @@
 import RBush from "rbush";
-import type { DrawingEntity, EngineViewport } from "./types.js";
-import { entityBBox, expandBBoxByPixels } from "./geometry.js";
+import type { DrawingPoint, EngineViewport, ModelBBox } from "./types.js";
+import { bboxFromPoints, expandBBoxByPixels, type IndexExtent } from "./geometry.js";
 
 interface IndexItem {
   minX: number;
@@ -10,39 +10,98 @@ interface IndexItem {
   id: string;
 }
 
+interface IndexEntry {
+  item: IndexItem;
+  paddingPx: number;
+}
+
+function toItem(id: string, bbox: ModelBBox): IndexItem {
+  return {
+    minX: Math.min(bbox.minLogical, bbox.maxLogical),
+    minY: Math.min(bbox.minPrice, bbox.maxPrice),
+    maxX: Math.max(bbox.minLogical, bbox.maxLogical),
+    maxY: Math.max(bbox.minPrice, bbox.maxPrice),
+    id
+  };
+}
+
+/**
+ * Model-space index maintained per entity. Stored boxes carry no pixel tolerance;
+ * queries expand by tolerance (plus each tree's screen-space padding) for the
+ * viewport at hand, so zooming and panning never require a rebuild.
+ */
 export class SpatialIndex {
-  private readonly tree = new RBush<IndexItem>();
+  // One tree per screen-space padding, so padded items don't widen every query.
+  private readonly trees = new Map<number, RBush<IndexItem>>();
+  private readonly entries = new Map<string, IndexEntry>();
 
-  rebuild(drawings: DrawingEntity[], viewport: EngineViewport, tolerancePx: number): void {
-    this.tree.clear();
-    const items: IndexItem[] = [];
+  get size(): number {
+    return this.entries.size;
+  }
 
-    for (const drawing of drawings) {
-      if (!drawing.visible) {
-        continue;
-      }
-      const bbox = expandBBoxByPixels(entityBBox(drawing, viewport), viewport, tolerancePx);
-      items.push({
-        minX: bbox.minLogical,
-        minY: bbox.minPrice,
-        maxX: bbox.maxLogical,
-        maxY: bbox.maxPrice,
-        id: drawing.id
-      });
+  clear(): void {
+    this.trees.clear();
+    this.entries.clear();
+  }
+
+  load(extents: Iterable<[string, IndexExtent]>): void {
+    this.clear();
+    const batches = new Map<number, IndexItem[]>();
+    for (const [id, extent] of extents) {
+      const item = toItem(id, extent.bbox);
+      this.entries.set(id, { item, paddingPx: extent.paddingPx });
+      const batch = batches.get(extent.paddingPx) ?? [];
+      batch.push(item);
+      batches.set(extent.paddingPx, batch);
     }
+    for (const [paddingPx, items] of batches) {
+      this.tree(paddingPx).load(items);
+    }
+  }
 
-    if (items.length > 0) {
-      this.tree.load(items);
+  upsert(id: string, extent: IndexExtent): void {
+    this.remove(id);
+    const item = toItem(id, extent.bbox);
+    this.entries.set(id, { item, paddingPx: extent.paddingPx });
+    this.tree(extent.paddingPx).insert(item);
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(id);
+    this.trees.get(entry.paddingPx)?.remove(entry.item);
+  }
+
+  queryRect(bbox: ModelBBox, viewport: EngineViewport, tolerancePx: number): string[] {
+    const ids: string[] = [];
+    for (const [paddingPx, tree] of this.trees) {
+      const area = expandBBoxByPixels(bbox, viewport, tolerancePx + paddingPx);
+      const hits = tree.search({
+        minX: Math.min(area.minLogical, area.maxLogical),
+        minY: Math.min(area.minPrice, area.maxPrice),
+        maxX: Math.max(area.minLogical, area.maxLogical),
+        maxY: Math.max(area.minPrice, area.maxPrice)
+      });
+      for (const item of hits) {
+        ids.push(item.id);
+      }
     }
+    return ids;
   }
 
-  queryPoint(logical: number, price: number): string[] {
-    const hits = this.tree.search({
-      minX: logical,
-      minY: price,
-      maxX: logical,
-      maxY: price
-    });
-    return hits.map((item) => item.id);
+  queryPoint(point: DrawingPoint, viewport: EngineViewport, tolerancePx: number): string[] {
+    return this.queryRect(bboxFromPoints([point]), viewport, tolerancePx);
+  }
+
+  private tree(paddingPx: number): RBush<IndexItem> {
+    let tree = this.trees.get(paddingPx);
+    if (!tree) {
+      tree = new RBush<IndexItem>();
+      this.trees.set(paddingPx, tree);
+    }
+    return tree;
   }
 }
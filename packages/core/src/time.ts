@@ -0,0 +1,77 @@
+import type { TimeResolver } from "./types.js";
+
+const INTERVAL_SAMPLE = 20;
+
+function typicalInterval(times: number[]): number {
+  const intervals: number[] = [];
+  for (let i = Math.max(1, times.length - INTERVAL_SAMPLE); i < times.length; i += 1) {
+    const interval = (times[i] ?? 0) - (times[i - 1] ?? 0);
+    if (interval > 0) {
+      intervals.push(interval);
+    }
+  }
+  if (intervals.length === 0) {
+    return 0;
+  }
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)] ?? 0;
+}
+
+/**
+ * Builds a resolver from ascending bar open times (one per logical index).
+ * Times between bars interpolate linearly; times outside the data extrapolate
+ * using the median spacing of the most recent bars.
+ */
+export function createBarTimeResolver(times: number[]): TimeResolver {
+  const interval = typicalInterval(times);
+  const first = times[0];
+  const last = times.at(-1);
+  const lastIndex = times.length - 1;
+
+  return {
+    logicalToTime(logical) {
+      if (first === undefined || last === undefined || !Number.isFinite(logical)) {
+        return null;
+      }
+      if (logical <= 0 || logical >= lastIndex) {
+        const edge = logical <= 0 ? first : last;
+        const offset = logical <= 0 ? logical : logical - lastIndex;
+        if (offset === 0) {
+          return edge;
+        }
+        return interval > 0 ? edge + offset * interval : null;
+      }
+      const index = Math.floor(logical);
+      const from = times[index] ?? first;
+      const to = times[index + 1] ?? from;
+      return from + (logical - index) * (to - from);
+    },
+
+    timeToLogical(time) {
+      if (first === undefined || last === undefined || !Number.isFinite(time)) {
+        return null;
+      }
+      if (time <= first || time >= last) {
+        const edge = time <= first ? first : last;
+        const base = time <= first ? 0 : lastIndex;
+        if (time === edge) {
+          return base;
+        }
+        return interval > 0 ? base + (time - edge) / interval : null;
+      }
+      let low = 0;
+      let high = lastIndex;
+      while (high - low > 1) {
+        const mid = (low + high) >> 1;
+        if ((times[mid] ?? 0) <= time) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      const from = times[low] ?? first;
+      const to = times[high] ?? from;
+      return to > from ? low + (time - from) / (to - from) : low;
+    }
+  };
+}
@@ -1,4 +1,34 @@
-import type { ToolDefinition } from "./types.js";
+import type { DrawingEntity, DrawingPoint, ToolDefinition } from "./types.js";
+
+// A corner at `source`'s time-axis position (keeping its time anchor) and the given price.
+function corner(source: DrawingPoint, price: number): DrawingPoint {
+  return { ...source, price };
+}
+
+// The two stored corners come first, then the off-diagonal ones, so opposite corners pair up
+// as handles 0/1 and 2/3.
+function rectangleHandles(entity: DrawingEntity): DrawingPoint[] {
+  const [a, b] = entity.points;
+  if (!a || !b) {
+    return entity.points;
+  }
+  return [a, b, corner(a, b.price), corner(b, a.price)];
+}
+
+function moveRectangleHandle(
+  entity: DrawingEntity,
+  handleIndex: number,
+  point: DrawingPoint
+): DrawingPoint[] {
+  const [a, b] = entity.points;
+  if (!a || !b || handleIndex < 2) {
+    return entity.points.map((current, index) => (index === handleIndex ? point : current));
+  }
+  // An off-diagonal corner moves one stored point along the time axis and the other in price.
+  return handleIndex === 2
+    ? [corner(point, a.price), corner(b, point.price)]
+    : [corner(a, point.price), corner(point, b.price)];
+}
 
 export const BUILTIN_TOOLS: ToolDefinition[] = [
   { id: "cursor", minPoints: 0, maxPoints: 0 },
@@ -7,7 +37,13 @@ export const BUILTIN_TOOLS: ToolDefinition[] = [
   { id: "vertical_line", minPoints: 1, maxPoints: 1 },
   { id: "ray", minPoints: 2, maxPoints: 2 },
   { id: "extended_line", minPoints: 2, maxPoints: 2 },
-  { id: "rectangle", minPoints: 2, maxPoints: 2 },
+  {
+    id: "rectangle",
+    minPoints: 2,
+    maxPoints: 2,
+    handles: rectangleHandles,
+    moveHandle: moveRectangleHandle
+  },
   { id: "arrow", minPoints: 2, maxPoints: 2 },
   { id: "ruler", minPoints: 2, maxPoints: 2 },
   { id: "fibonacci", minPoints: 2, maxPoints: 2 },
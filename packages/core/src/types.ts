@@ -19,6 +19,7 @@ export type DrawingLineStyle = "solid" | "dashed" | "dotted";
 export interface DrawingPoint {
   logical: number;
   price: number;
+  time?: number;
 }
 
 export interface DrawingStyle {
@@ -31,6 +32,12 @@ export interface DrawingStyle {
   showLabel: boolean;
 }
 
+export interface VisibilityRule {
+  resolutions?: number[];
+  minResolution?: number;
+  maxResolution?: number;
+}
+
 export interface DrawingEntity {
   id: string;
   tool: ToolId;
@@ -40,12 +47,37 @@ export interface DrawingEntity {
   visible: boolean;
   locked: boolean;
   groupId?: string;
+  visibility?: VisibilityRule;
   zIndex: number;
   metadata?: Record<string, unknown>;
   createdAt: number;
   updatedAt: number;
 }
 
+export interface DrawingGroup {
+  id: string;
+  name?: string;
+}
+
+export interface DrawingInput {
+  tool: ToolId;
+  points: DrawingPoint[];
+  id?: string;
+  style?: Partial<DrawingStyle>;
+  text?: string;
+  visible?: boolean;
+  locked?: boolean;
+  visibility?: VisibilityRule;
+  zIndex?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export type DrawingPatch = Partial<
+  Omit<DrawingEntity, "id" | "tool" | "style" | "createdAt" | "updatedAt">
+> & {
+  style?: Partial<DrawingStyle>;
+};
+
 export interface SelectionState {
   ids: string[];
   primaryId: string | null;
@@ -85,13 +117,107 @@ export interface KeyboardInput {
   metaKey?: boolean;
 }
 
+export type CreationMode = "drag" | "click";
+
+export interface ModelBBox {
+  minLogical: number;
+  maxLogical: number;
+  minPrice: number;
+  maxPrice: number;
+}
+
+export interface HitTestResult {
+  kind: "body" | "handle";
+  handleIndex?: number;
+}
+
+export interface DrawingHit extends HitTestResult {
+  id: string;
+}
+
+export interface ToolCreateContext {
+  draft: DrawingEntity;
+  input: PointerInput | null;
+  viewport: EngineViewport;
+}
+
+export interface ToolKeyContext {
+  draft: DrawingEntity | null;
+  selection: DrawingEntity[];
+  viewport: EngineViewport;
+}
+
+export interface ToolDraftUpdate {
+  points?: DrawingPoint[];
+  metadata?: Record<string, unknown>;
+}
+
+export type ToolCreateHook = (context: ToolCreateContext) => ToolDraftUpdate | void;
+
 export interface ToolDefinition {
   id: ToolId;
   minPoints: number;
   maxPoints: number;
   continuous?: boolean;
+  creationMode?: CreationMode;
   defaultStyle?: Partial<DrawingStyle>;
   normalize?: (entity: DrawingEntity) => DrawingEntity;
+  moveHandle?: (entity: DrawingEntity, handleIndex: number, point: DrawingPoint) => DrawingPoint[];
+  onCreateStart?: ToolCreateHook;
+  onCreateMove?: ToolCreateHook;
+  onCreateEnd?: ToolCreateHook;
+  onKeyDown?: (input: KeyboardInput, context: ToolKeyContext) => ToolDraftUpdate | boolean | void;
+  handles?: (entity: DrawingEntity) => DrawingPoint[];
+  bbox?: (entity: DrawingEntity) => ModelBBox;
+  bboxPaddingPx?: number;
+  hitTest?: (
+    entity: DrawingEntity,
+    point: DrawingPoint,
+    viewport: EngineViewport,
+    tolerancePx: number
+  ) => HitTestResult | null;
+}
+
+export interface BarData {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface BarDataProvider {
+  barAt: (logical: number) => BarData | null;
+}
+
+export type SnapTargetKind = "endpoint" | "midpoint" | "price" | "intersection";
+
+export interface SnapTarget {
+  kind: SnapTargetKind;
+  point: DrawingPoint;
+  drawingIds: string[];
+  distancePx: number;
+}
+
+export type EngineCursor =
+  | "default"
+  | "pointer"
+  | "move"
+  | "crosshair"
+  | "ns-resize"
+  | "ew-resize"
+  | "not-allowed";
+
+export interface InstrumentSpec {
+  tickSize: number;
+  pricePrecision: number;
+  minMove: number;
+}
+
+export type SnapMode = "off" | "weak" | "strong" | "weak-magnet" | "strong-magnet";
+
+export interface TimeResolver {
+  timeToLogical: (time: number) => number | null;
+  logicalToTime: (logical: number) => number | null;
 }
 
 export interface EngineOptions {
@@ -100,11 +226,16 @@ export interface EngineOptions {
   historyLimit: number;
   hitTolerancePxMouse: number;
   hitTolerancePxTouch: number;
-  snapMode: "off" | "weak" | "strong";
+  snapMode: SnapMode;
+  magnetRadiusPx: number;
+  instrument: InstrumentSpec | null;
+  objectSnap: boolean;
+  objectSnapRadiusPx: number;
   emitOnAnimationFrame: boolean;
   enableHoldToDraw: boolean;
   holdToDrawMs: number;
   holdMoveTolerancePx: number;
+  historyMergeMs: number;
 }
 
 export interface EngineMetrics {
@@ -113,11 +244,22 @@ export interface EngineMetrics {
   lastFrameMs: number;
   p95FrameMs: number;
   lastHitTestMs: number;
+  historyBytes: number;
 }
 
 export interface EngineStateView {
   activeTool: ToolId;
+  documentKey: string;
+  resolution: number | null;
   drawings: DrawingEntity[];
+  draft: DrawingEntity | null;
+  snapTarget: SnapTarget | null;
+  instrument: InstrumentSpec | null;
+  groups: DrawingGroup[];
+  editingTextId: string | null;
+  hoveredId: string | null;
+  hoveredHandle: number | null;
+  cursor: EngineCursor;
   selection: SelectionState;
   interactionMode: InteractionMode;
   history: {
@@ -132,9 +274,28 @@ export type InteractionMode =
   | "idle"
   | "creating"
   | "dragging-selection"
+  | "editing-handle"
   | "marquee"
   | "editing-text";
 
+export type DrawingChangePatch = {
+  [K in keyof DrawingEntity]?: DrawingEntity[K] | undefined;
+};
+
+export type EngineChange =
+  | { type: "drawings:added"; ids: string[]; drawings: DrawingEntity[] }
+  | { type: "drawings:updated"; ids: string[]; patches: Record<string, DrawingChangePatch> }
+  | { type: "drawings:removed"; ids: string[] }
+  | { type: "selection:changed"; ids: string[]; primaryId: string | null }
+  | { type: "tool:changed"; tool: ToolId }
+  | { type: "history:changed"; undoDepth: number; redoDepth: number };
+
+export type EngineChangeType = EngineChange["type"];
+
+export type EngineChangeHandler<T extends EngineChangeType> = (
+  change: Extract<EngineChange, { type: T }>
+) => void;
+
 export interface EngineEvent {
   reason:
     | "tool"
@@ -145,51 +306,153 @@ export interface EngineEvent {
     | "history"
     | "import"
     | "metrics";
-  state: EngineStateView;
+  changes: EngineChange[];
+  readonly state: EngineStateView;
 }
 
 export type EngineSubscriber = (event: EngineEvent) => void;
 
+export interface EntityChange {
+  id: string;
+  before: DrawingEntity | null;
+  after: DrawingEntity | null;
+}
+
 export interface HistoryFrame {
   label: string;
-  before: DrawingEntity[];
-  after: DrawingEntity[];
+  changes: EntityChange[];
   at: number;
+  mergeKey?: string;
 }
 
 export interface DrawingSnapshotV1 {
   version: "1";
   drawings: DrawingEntity[];
-  groups: Array<{ id: string; name?: string }>;
+  groups: DrawingGroup[];
+  prefs: {
+    activeTool: ToolId;
+    snapMode: EngineOptions["snapMode"];
+  };
+  meta?: Record<string, unknown>;
+}
+
+export interface DrawingSnapshotV2 {
+  version: "2";
+  drawings: DrawingEntity[];
+  groups: DrawingGroup[];
   prefs: {
     activeTool: ToolId;
     snapMode: EngineOptions["snapMode"];
   };
+  exportedAt: number;
   meta?: Record<string, unknown>;
 }
 
+export interface DrawingDocumentSnapshot {
+  drawings: DrawingEntity[];
+  groups: DrawingGroup[];
+}
+
+export interface DrawingSnapshotV3 {
+  version: "3";
+  documents: Record<string, DrawingDocumentSnapshot>;
+  activeDocument: string;
+  prefs: {
+    activeTool: ToolId;
+    snapMode: EngineOptions["snapMode"];
+  };
+  exportedAt: number;
+  meta?: Record<string, unknown>;
+}
+
+export type DrawingSnapshot = DrawingSnapshotV1 | DrawingSnapshotV2 | DrawingSnapshotV3;
+
+export type SnapshotIssueCode =
+  | "invalid-snapshot"
+  | "unsupported-version"
+  | "invalid-drawing"
+  | "duplicate-id"
+  | "unknown-tool"
+  | "invalid-point"
+  | "point-count"
+  | "missing-field"
+  | "unknown-group";
+
+export interface SnapshotIssue {
+  code: SnapshotIssueCode;
+  path: string;
+  message: string;
+  document?: string;
+  index?: number;
+  drawingId?: string;
+}
+
+export interface SnapshotValidationResult {
+  valid: boolean;
+  errors: SnapshotIssue[];
+  warnings: SnapshotIssue[];
+}
+
+export interface SnapshotImportOptions {
+  mode?: "strict" | "lenient";
+}
+
+export interface SnapshotImportReport {
+  imported: number;
+  dropped: SnapshotIssue[];
+  warnings: SnapshotIssue[];
+}
+
 export interface DrawingEngine {
   setTool: (tool: ToolId) => void;
   setOptions: (options: Partial<EngineOptions>) => void;
   registerTool: (definition: ToolDefinition) => void;
+  setTimeResolver: (resolver: TimeResolver | null) => void;
+  setBarDataProvider: (provider: BarDataProvider | null) => void;
+  setCurrentResolution: (resolution: number | null) => void;
   pointerDown: (input: PointerInput) => void;
   pointerMove: (input: PointerInput) => void;
   pointerUp: (input: PointerInput) => void;
+  pointerLeave: () => void;
   keyDown: (input: KeyboardInput) => void;
   keyUp: (input: KeyboardInput) => void;
+  doubleClick: (input: PointerInput) => void;
+  beginTextEdit: (id: string) => void;
+  updateText: (id: string, text: string) => void;
+  commitTextEdit: () => void;
+  cancelTextEdit: () => void;
   undo: () => void;
   redo: () => void;
+  addDrawing: (input: DrawingInput) => DrawingEntity;
+  updateDrawing: (id: string, patch: DrawingPatch) => DrawingEntity;
+  removeDrawings: (ids: string[]) => void;
+  getDrawing: (id: string) => DrawingEntity | null;
+  getHandles: (id: string) => DrawingPoint[];
+  hitTest: (input: PointerInput) => DrawingHit | null;
+  setSelection: (ids: string[]) => void;
+  setStyle: (ids: string[], style: Partial<DrawingStyle>) => void;
+  setText: (ids: string[], text: string) => void;
   deleteSelection: () => void;
   selectAll: () => void;
   clearSelection: () => void;
+  groupSelection: (name?: string) => string | null;
+  ungroup: (groupId: string) => void;
+  renameGroup: (groupId: string, name: string) => void;
   setVisibility: (ids: string[], visible: boolean) => void;
   setLocked: (ids: string[], locked: boolean) => void;
   bringToFront: (ids: string[]) => void;
   sendToBack: (ids: string[]) => void;
   duplicateSelection: () => void;
-  exportSnapshot: () => DrawingSnapshotV1;
-  importSnapshot: (snapshot: DrawingSnapshotV1) => void;
+  setDocument: (key: string) => void;
+  listDocuments: () => string[];
+  exportSnapshot: () => DrawingSnapshotV3;
+  importSnapshot: (snapshot: unknown, options?: SnapshotImportOptions) => SnapshotImportReport;
+  transaction: <T>(label: string, fn: () => T) => T;
   getState: () => EngineStateView;
+  getActiveTool: () => ToolId;
+  getInteractionMode: () => InteractionMode;
+  getSelectedIds: () => string[];
   subscribe: (subscriber: EngineSubscriber) => () => void;
+  on: <T extends EngineChangeType>(type: T, handler: EngineChangeHandler<T>) => () => void;
   reportFrame: (frameMs: number) => void;
 }
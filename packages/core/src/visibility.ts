@@ -0,0 +1,20 @@
+import type { VisibilityRule } from "./types.js";
+
+export function isVisibleAtResolution(
+  rule: VisibilityRule | undefined,
+  resolution: number | null
+): boolean {
+  if (!rule || resolution === null) {
+    return true;
+  }
+  if (rule.resolutions && rule.resolutions.length > 0 && !rule.resolutions.includes(resolution)) {
+    return false;
+  }
+  if (rule.minResolution !== undefined && resolution < rule.minResolution) {
+    return false;
+  }
+  if (rule.maxResolution !== undefined && resolution > rule.maxResolution) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,77 @@
+export interface LabelFormatter {
+  price: (price: number) => string;
+  percent: (ratio: number) => string;
+  ratio: (value: number) => string;
+  duration: (seconds: number) => string;
+  barCount: (bars: number) => string;
+  dateTime: (utcSeconds: number) => string;
+}
+
+export interface LabelFormatterOptions {
+  locale?: string;
+  timeZone?: string;
+  pricePrecision?: number;
+}
+
+const DURATION_UNITS: Array<[suffix: string, seconds: number]> = [
+  ["d", 86_400],
+  ["h", 3_600],
+  ["m", 60],
+  ["s", 1]
+];
+
+function clampDigits(digits: number): number {
+  return Math.min(Math.max(Math.round(digits), 0), 20);
+}
+
+/**
+ * Builds the default label formatter. Prices use `pricePrecision` decimals without
+ * grouping (like the price scale); date/time defaults to UTC, as Lightweight Charts does.
+ */
+export function createLabelFormatter(options: LabelFormatterOptions = {}): LabelFormatter {
+  const locale = options.locale ?? "en-US";
+  const digits = clampDigits(options.pricePrecision ?? 2);
+  const priceFormat = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    useGrouping: false
+  });
+  const percentFormat = new Intl.NumberFormat(locale, {
+    style: "percent",
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 2
+  });
+  const ratioFormat = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+  const countFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+  const dateFormat = new Intl.DateTimeFormat(locale, {
+    timeZone: options.timeZone ?? "UTC",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  });
+
+  return {
+    price: (price) => priceFormat.format(price),
+    percent: (ratio) => percentFormat.format(ratio),
+    ratio: (value) => ratioFormat.format(value),
+    duration(seconds) {
+      let rest = Math.round(Math.abs(seconds));
+      const parts: string[] = [];
+      for (const [suffix, size] of DURATION_UNITS) {
+        if (rest >= size && parts.length < 2) {
+          parts.push(`${Math.floor(rest / size)}${suffix}`);
+          rest %= size;
+        }
+      }
+      return parts.length > 0 ? parts.join(" ") : "0s";
+    },
+    barCount: (bars) => `${countFormat.format(bars)} ${Math.round(bars) === 1 ? "bar" : "bars"}`,
+    dateTime: (utcSeconds) => dateFormat.format(new Date(utcSeconds * 1000))
+  };
+}
@@ -1,4 +1,36 @@
-import type { DrawingEngine, DrawingEntity, DrawingPoint, PointerInput, ToolId } from "@tdraw-tools/core";
+import {
+  createBarTimeResolver,
+  type BarDataProvider,
+  type DrawingEngine,
+  type DrawingPoint,
+  type EngineStateView,
+  type InstrumentSpec,
+  type KeyboardInput,
+  type PointerInput,
+  type TimeResolver,
+  type ToolId
+} from "@tdraw-tools/core";
+import { createLabelFormatter, type LabelFormatter } from "./format.js";
+import {
+  createDrawingPrimitive,
+  type DrawingPrimitive,
+  type PrimitiveZOrder,
+  type SeriesPrimitiveLike
+} from "./primitive.js";
+import {
+  createSceneRenderer,
+  sceneAxisLabels,
+  TEXT_BOX_WIDTH,
+  TEXT_LINE_HEIGHT,
+  textBoxHeight,
+  withOpacity,
+  type CustomCanvasRenderer
+} from "./scene.js";
+
+export { createLabelFormatter } from "./format.js";
+export type { LabelFormatter, LabelFormatterOptions } from "./format.js";
+export type { PrimitiveZOrder } from "./primitive.js";
+export type { CustomCanvasRenderer, RenderHelpers } from "./scene.js";
 
 interface TimeScaleLike {
   coordinateToLogical: (x: number) => number | null;
@@ -11,32 +43,43 @@ interface ChartLike {
   timeScale: () => TimeScaleLike;
 }
 
+type SeriesTime = number | string | { year: number; month: number; day: number };
+
+interface SeriesBar {
+  time: SeriesTime;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  value?: number;
+}
+
+type DataChangedScope = "full" | "update";
+
 interface SeriesLike {
   priceToCoordinate: (price: number) => number | null;
   coordinateToPrice: (y: number) => number | null;
+  data?: () => readonly SeriesBar[];
+  dataByIndex?: (logicalIndex: number) => SeriesBar | null;
+  subscribeDataChanged?: (handler: (scope: DataChangedScope) => void) => void;
+  unsubscribeDataChanged?: (handler: (scope: DataChangedScope) => void) => void;
+  attachPrimitive?: (primitive: SeriesPrimitiveLike) => void;
+  detachPrimitive?: (primitive: SeriesPrimitiveLike) => void;
 }
 
 export type AdapterBackend = "overlay" | "primitive";
 
-export interface RenderHelpers {
-  toScreen: (point: DrawingPoint) => { x: number; y: number } | null;
-  viewportWidth: number;
-  viewportHeight: number;
-  dpr: number;
-}
-
-export type CustomCanvasRenderer = (
-  ctx: CanvasRenderingContext2D,
-  drawing: DrawingEntity,
-  helpers: RenderHelpers
-) => void;
-
 export interface AttachOptions {
   chart: ChartLike;
   series: SeriesLike;
   container: HTMLElement;
   backend?: AdapterBackend;
+  zOrder?: PrimitiveZOrder;
   customRenderers?: Partial<Record<ToolId, CustomCanvasRenderer>>;
+  timeResolver?: TimeResolver;
+  barData?: BarDataProvider;
+  locale?: string;
+  formatter?: Partial<LabelFormatter>;
   showDebugOverlay?: boolean;
   onMetrics?: (metrics: {
     fps: number;
@@ -53,19 +96,69 @@ export interface AttachedDrawingAdapter {
   canvas: HTMLCanvasElement;
 }
 
-const DASH_MAP: Record<string, number[]> = {
-  solid: [],
-  dashed: [8, 6],
-  dotted: [2, 4]
-};
+const CLICK_SLOP_PX = 4;
+const CHART_INPUT_EVENTS = [
+  "mousedown",
+  "mousemove",
+  "mouseup",
+  "touchstart",
+  "touchmove",
+  "touchend"
+];
+
+function toUtcSeconds(time: SeriesTime): number {
+  if (typeof time === "number") {
+    return time;
+  }
+  if (typeof time === "string") {
+    return Date.parse(`${time}T00:00:00Z`) / 1000;
+  }
+  return Date.UTC(time.year, time.month - 1, time.day) / 1000;
+}
+
+function seriesBarData(lookup: (logical: number) => SeriesBar | null | undefined): BarDataProvider {
+  return {
+    barAt(logical) {
+      const bar = lookup(logical);
+      if (!bar) {
+        return null;
+      }
+      if (
+        bar.open !== undefined &&
+        bar.high !== undefined &&
+        bar.low !== undefined &&
+        bar.close !== undefined
+      ) {
+        return { open: bar.open, high: bar.high, low: bar.low, close: bar.close };
+      }
+      return bar.value !== undefined
+        ? { open: bar.value, high: bar.value, low: bar.value, close: bar.value }
+        : null;
+    }
+  };
+}
+
+function isPointerEvent(event: MouseEvent): event is PointerEvent {
+  return "pointerId" in event;
+}
+
+function keyboardInput(event: KeyboardEvent): KeyboardInput {
+  return {
+    key: event.key,
+    shiftKey: event.shiftKey,
+    altKey: event.altKey,
+    ctrlKey: event.ctrlKey,
+    metaKey: event.metaKey
+  };
+}
 
 export function attachLightweightCharts(
   engine: DrawingEngine,
   options: AttachOptions
 ): AttachedDrawingAdapter {
-  if (options.backend && options.backend !== "overlay") {
+  if (options.backend === "primitive" && !options.series.attachPrimitive) {
     console.warn(
-      `[tdraw-tools] backend '${options.backend}' requested; using overlay backend in v1.`
+      "[tdraw-tools] backend 'primitive' needs series primitives (Lightweight Charts 4.1+); using overlay backend."
     );
   }
 
@@ -74,6 +167,23 @@ export function attachLightweightCharts(
   const container = options.container;
   const customRenderers = options.customRenderers ?? {};
 
+  // Rebuilt only when the instrument's price precision changes.
+  let labelFormat: LabelFormatter | null = null;
+  let labelPrecision: number | undefined;
+  const labelFormatter = (instrument: InstrumentSpec | null): LabelFormatter => {
+    if (!labelFormat || labelPrecision !== instrument?.pricePrecision) {
+      labelPrecision = instrument?.pricePrecision;
+      labelFormat = {
+        ...createLabelFormatter({
+          ...(options.locale !== undefined ? { locale: options.locale } : {}),
+          ...(labelPrecision !== undefined ? { pricePrecision: labelPrecision } : {})
+        }),
+        ...options.formatter
+      };
+    }
+    return labelFormat;
+  };
+
   if (getComputedStyle(container).position === "static") {
     container.style.position = "relative";
   }
@@ -84,8 +194,10 @@ export function attachLightweightCharts(
   canvas.style.width = "100%";
   canvas.style.height = "100%";
   canvas.style.zIndex = "20";
-  canvas.style.touchAction = "none";
+  canvas.style.pointerEvents = "none";
   canvas.tabIndex = 0;
+  // The chart's pane inherits the container's cursor unless it sets its own.
+  const containerCursor = container.style.cursor;
 
   container.appendChild(canvas);
 
@@ -108,6 +220,24 @@ export function attachLightweightCharts(
   debugOverlay.style.display = options.showDebugOverlay ? "block" : "none";
   container.appendChild(debugOverlay);
 
+  const textEditor = document.createElement("textarea");
+  textEditor.style.position = "absolute";
+  textEditor.style.zIndex = "30";
+  textEditor.style.display = "none";
+  textEditor.style.boxSizing = "border-box";
+  textEditor.style.margin = "0";
+  textEditor.style.padding = "3px 7px";
+  textEditor.style.border = "1px solid";
+  textEditor.style.outline = "none";
+  textEditor.style.resize = "none";
+  textEditor.style.overflow = "hidden";
+  textEditor.style.font = "12px 'IBM Plex Sans', 'Segoe UI', sans-serif";
+  textEditor.style.lineHeight = `${TEXT_LINE_HEIGHT}px`;
+  textEditor.style.width = `${TEXT_BOX_WIDTH}px`;
+  textEditor.spellcheck = false;
+  container.appendChild(textEditor);
+  let textEditorId: string | null = null;
+
   let width = 0;
   let height = 0;
   let dpr = 1;
@@ -116,8 +246,14 @@ export function attachLightweightCharts(
   let lastFrameAt = performance.now();
   const frameSamples: number[] = [];
 
-  const pointerState = {
-    activeId: -1
+  const pointerState: {
+    activeId: number;
+    lastInput: PointerInput | null;
+    chartPress: { id: number; x: number; y: number } | null;
+  } = {
+    activeId: -1,
+    lastInput: null,
+    chartPress: null
   };
 
   const toScreen = (point: DrawingPoint): { x: number; y: number } | null => {
@@ -129,7 +265,10 @@ export function attachLightweightCharts(
     return { x, y };
   };
 
-  const computeViewportScale = (x: number, y: number): { logicalPerPixel: number; pricePerPixel: number } => {
+  const computeViewportScale = (
+    x: number,
+    y: number
+  ): { logicalPerPixel: number; pricePerPixel: number } => {
     const logicalA = chart.timeScale().coordinateToLogical(x);
     const logicalB = chart.timeScale().coordinateToLogical(x + 1);
     const priceA = series.coordinateToPrice(y);
@@ -145,7 +284,7 @@ export function attachLightweightCharts(
     };
   };
 
-  const pointerToInput = (event: PointerEvent): PointerInput | null => {
+  const pointerToInput = (event: MouseEvent): PointerInput | null => {
     const rect = canvas.getBoundingClientRect();
     const x = event.clientX - rect.left;
     const y = event.clientY - rect.top;
@@ -158,22 +297,26 @@ export function attachLightweightCharts(
 
     const viewport = computeViewportScale(x, y);
 
-    const pointerType = (event.pointerType || "mouse") as NonNullable<PointerInput["pointerType"]>;
-
-    return {
+    const input: PointerInput = {
       x,
       y,
       logical,
       price,
       viewport,
-      pointerId: event.pointerId,
-      pointerType,
+      pointerType: "mouse",
       button: event.button,
       shiftKey: event.shiftKey,
       altKey: event.altKey,
       ctrlKey: event.ctrlKey,
       metaKey: event.metaKey
     };
+    if (isPointerEvent(event)) {
+      input.pointerId = event.pointerId;
+      input.pointerType = (event.pointerType || "mouse") as NonNullable<
+        PointerInput["pointerType"]
+      >;
+    }
+    return input;
   };
 
   const resizeCanvas = (): void => {
@@ -189,352 +332,69 @@ export function attachLightweightCharts(
     requestRender();
   };
 
-  const applyStyle = (drawing: DrawingEntity): void => {
-    ctx.strokeStyle = drawing.style.strokeColor;
-    ctx.fillStyle = drawing.style.fillColor;
-    ctx.lineWidth = drawing.style.lineWidth;
-    ctx.globalAlpha = drawing.style.opacity;
-    ctx.setLineDash(DASH_MAP[drawing.style.lineStyle] ?? []);
-  };
-
-  const withOpacity = (value: string, alpha: number): string => {
-    if (value.startsWith("rgba") || value.startsWith("rgb")) {
-      return value;
-    }
-    if (!value.startsWith("#")) {
-      return value;
-    }
-
-    const hex = value.slice(1);
-    if (hex.length !== 6) {
-      return value;
-    }
-
-    const r = Number.parseInt(hex.slice(0, 2), 16);
-    const g = Number.parseInt(hex.slice(2, 4), 16);
-    const b = Number.parseInt(hex.slice(4, 6), 16);
-    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
-  };
-
-  const drawArrowHead = (from: { x: number; y: number }, to: { x: number; y: number }): void => {
-    const angle = Math.atan2(to.y - from.y, to.x - from.x);
-    const len = 10;
-    const spread = Math.PI / 6;
-
-    ctx.beginPath();
-    ctx.moveTo(to.x, to.y);
-    ctx.lineTo(to.x - len * Math.cos(angle - spread), to.y - len * Math.sin(angle - spread));
-    ctx.lineTo(to.x - len * Math.cos(angle + spread), to.y - len * Math.sin(angle + spread));
-    ctx.closePath();
-    ctx.fillStyle = ctx.strokeStyle;
-    ctx.fill();
-  };
-
-  const extendRayToViewport = (
-    a: { x: number; y: number },
-    b: { x: number; y: number },
-    bothSides = false
-  ): { start: { x: number; y: number }; end: { x: number; y: number } } => {
-    const dx = b.x - a.x;
-    const dy = b.y - a.y;
-    if (Math.abs(dx) < 0.001 && Math.abs(dy) < 0.001) {
-      return { start: a, end: b };
-    }
-
-    const intersections: { x: number; y: number; t: number }[] = [];
-    const addPoint = (x: number, y: number, t: number): void => {
-      if (x >= 0 && x <= width && y >= 0 && y <= height) {
-        intersections.push({ x, y, t });
-      }
-    };
-
-    if (Math.abs(dx) > 0.001) {
-      const tLeft = (0 - a.x) / dx;
-      addPoint(0, a.y + tLeft * dy, tLeft);
-      const tRight = (width - a.x) / dx;
-      addPoint(width, a.y + tRight * dy, tRight);
-    }
-
-    if (Math.abs(dy) > 0.001) {
-      const tTop = (0 - a.y) / dy;
-      addPoint(a.x + tTop * dx, 0, tTop);
-      const tBottom = (height - a.y) / dy;
-      addPoint(a.x + tBottom * dx, height, tBottom);
-    }
-
-    if (intersections.length === 0) {
-      return { start: a, end: b };
-    }
-
-    if (bothSides) {
-      intersections.sort((p, q) => p.t - q.t);
-      const first = intersections[0];
-      const last = intersections[intersections.length - 1];
-      if (!first || !last) {
-        return { start: a, end: b };
-      }
-      return {
-        start: { x: first.x, y: first.y },
-        end: { x: last.x, y: last.y }
-      };
-    }
-
-    const forward = intersections.filter((item) => item.t >= 0).sort((p, q) => p.t - q.t);
-    const forwardLast = forward[forward.length - 1];
-    return {
-      start: a,
-      end: forwardLast ? { x: forwardLast.x, y: forwardLast.y } : b
-    };
-  };
-
-  const drawTextBox = (drawing: DrawingEntity, at: { x: number; y: number }): void => {
-    const text = drawing.text ?? "Text";
-    const lines = text.split(/\n/);
-    const paddingX = 8;
-    const lineHeight = 14;
-    const boxWidth = 150;
-    const boxHeight = Math.max(30, lines.length * lineHeight + 10);
-
-    ctx.fillStyle = withOpacity(drawing.style.fillColor, 0.75);
-    ctx.strokeStyle = withOpacity(drawing.style.strokeColor, 0.9);
-    ctx.lineWidth = 1;
-    ctx.setLineDash([]);
-
-    ctx.beginPath();
-    ctx.rect(at.x, at.y - boxHeight, boxWidth, boxHeight);
-    ctx.fill();
-    ctx.stroke();
-
-    ctx.fillStyle = drawing.style.textColor;
-    ctx.font = "12px 'IBM Plex Sans', 'Segoe UI', sans-serif";
-    ctx.textBaseline = "middle";
-
-    for (let i = 0; i < lines.length; i += 1) {
-      ctx.fillText(lines[i] ?? "", at.x + paddingX, at.y - boxHeight + 8 + i * lineHeight);
-    }
-  };
-
-  const drawSelectionHandles = (drawing: DrawingEntity, selected: boolean): void => {
-    if (!selected || drawing.locked) {
-      return;
-    }
-
-    for (const point of drawing.points) {
-      const screen = toScreen(point);
-      if (!screen) {
-        continue;
-      }
-      ctx.beginPath();
-      ctx.arc(screen.x, screen.y, 4, 0, Math.PI * 2);
-      ctx.fillStyle = "#ffffff";
-      ctx.fill();
-      ctx.strokeStyle = "#2a7fff";
-      ctx.lineWidth = 1.5;
-      ctx.stroke();
-    }
-  };
-
-  const drawEntity = (drawing: DrawingEntity, selected: boolean): void => {
-    if (!drawing.visible) {
-      return;
-    }
-
-    const custom = customRenderers[drawing.tool];
-    if (custom) {
-      custom(ctx, drawing, {
-        toScreen,
-        viewportWidth: width,
-        viewportHeight: height,
-        dpr
-      });
-      drawSelectionHandles(drawing, selected);
-      return;
-    }
-
-    applyStyle(drawing);
-    const p = drawing.points.map(toScreen);
-
-    if (drawing.tool === "horizontal_line" && p[0]) {
-      ctx.beginPath();
-      ctx.moveTo(0, p[0].y);
-      ctx.lineTo(width, p[0].y);
-      ctx.stroke();
-      drawSelectionHandles(drawing, selected);
-      return;
-    }
-
-    if (drawing.tool === "vertical_line" && p[0]) {
-      ctx.beginPath();
-      ctx.moveTo(p[0].x, 0);
-      ctx.lineTo(p[0].x, height);
-      ctx.stroke();
-      drawSelectionHandles(drawing, selected);
-      return;
-    }
-
-    if ((drawing.tool === "trend_line" || drawing.tool === "arrow" || drawing.tool === "ruler") && p[0] && p[1]) {
-      ctx.beginPath();
-      ctx.moveTo(p[0].x, p[0].y);
-      ctx.lineTo(p[1].x, p[1].y);
-      ctx.stroke();
-
-      if (drawing.tool === "arrow") {
-        drawArrowHead(p[0], p[1]);
-      }
-
-      if (drawing.tool === "ruler") {
-        const firstPoint = drawing.points[0];
-        const secondPoint = drawing.points[1];
-        if (!firstPoint || !secondPoint) {
-          return;
+  const drawScene = createSceneRenderer((id) => engine.getHandles(id), customRenderers);
+
+  // With the primitive backend the chart paints drawings inside the series pane; the overlay
+  // canvas stays empty and only takes keyboard focus.
+  let primitiveScene: { state: EngineStateView; format: LabelFormatter } | null = null;
+  const primitive: DrawingPrimitive | null =
+    options.backend === "primitive" && series.attachPrimitive
+      ? createDrawingPrimitive({
+          zOrder: options.zOrder ?? "normal",
+          draw(paneCtx, paneWidth, paneHeight, paneDpr) {
+            if (!primitiveScene) {
+              return;
+            }
+            const frameStart = performance.now();
+            drawScene(
+              { ctx: paneCtx, width: paneWidth, height: paneHeight, dpr: paneDpr, toScreen },
+              primitiveScene.state,
+              primitiveScene.format
+            );
+            recordFrame(frameStart, primitiveScene.state);
+          },
+          axisLabels: () =>
+            primitiveScene
+              ? sceneAxisLabels(primitiveScene.state, primitiveScene.format, toScreen)
+              : { price: [], time: [] }
+        })
+      : null;
+
+  const syncTextEditor = (state: EngineStateView): void => {
+    const drawing = state.editingTextId
+      ? state.drawings.find((item) => item.id === state.editingTextId)
+      : undefined;
+    const anchor = drawing?.points[0] ? toScreen(drawing.points[0]) : null;
+
+    if (!drawing || !anchor) {
+      if (textEditorId !== null) {
+        textEditorId = null;
+        textEditor.style.display = "none";
+        if (document.activeElement === textEditor) {
+          canvas.focus();
         }
-        const bars = Math.abs(secondPoint.logical - firstPoint.logical);
-        const price = secondPoint.price - firstPoint.price;
-        const label = `${bars.toFixed(0)} bars • ${price.toFixed(2)}`;
-
-        ctx.font = "11px 'IBM Plex Sans', 'Segoe UI', sans-serif";
-        const w = ctx.measureText(label).width + 10;
-        const x = (p[0].x + p[1].x) / 2 - w / 2;
-        const y = (p[0].y + p[1].y) / 2 - 18;
-
-        ctx.fillStyle = "rgba(16, 24, 32, 0.78)";
-        ctx.strokeStyle = "rgba(255,255,255,0.25)";
-        ctx.lineWidth = 1;
-        ctx.setLineDash([]);
-        ctx.beginPath();
-        ctx.rect(x, y, w, 18);
-        ctx.fill();
-        ctx.stroke();
-
-        ctx.fillStyle = "#d4e7ff";
-        ctx.textBaseline = "middle";
-        ctx.fillText(label, x + 5, y + 9);
-      }
-
-      drawSelectionHandles(drawing, selected);
-      return;
-    }
-
-    if ((drawing.tool === "ray" || drawing.tool === "extended_line") && p[0] && p[1]) {
-      const extended = extendRayToViewport(p[0], p[1], drawing.tool === "extended_line");
-      ctx.beginPath();
-      ctx.moveTo(extended.start.x, extended.start.y);
-      ctx.lineTo(extended.end.x, extended.end.y);
-      ctx.stroke();
-      drawSelectionHandles(drawing, selected);
-      return;
-    }
-
-    if (drawing.tool === "rectangle" && p[0] && p[1]) {
-      const x = Math.min(p[0].x, p[1].x);
-      const y = Math.min(p[0].y, p[1].y);
-      const w = Math.abs(p[1].x - p[0].x);
-      const h = Math.abs(p[1].y - p[0].y);
-
-      ctx.beginPath();
-      ctx.rect(x, y, w, h);
-      ctx.fill();
-      ctx.stroke();
-
-      drawSelectionHandles(drawing, selected);
-      return;
-    }
-
-    if (drawing.tool === "fibonacci" && p[0] && p[1]) {
-      const levels = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
-      const x1 = p[0].x;
-      const x2 = p[1].x;
-      const y1 = p[0].y;
-      const y2 = p[1].y;
-
-      ctx.font = "11px 'IBM Plex Sans', 'Segoe UI', sans-serif";
-      ctx.setLineDash([5, 4]);
-
-      for (const level of levels) {
-        const y = y1 + (y2 - y1) * level;
-        ctx.beginPath();
-        ctx.moveTo(Math.min(x1, x2), y);
-        ctx.lineTo(Math.max(x1, x2), y);
-        ctx.stroke();
-
-        const label = `${(level * 100).toFixed(1)}%`;
-        ctx.fillStyle = "rgba(16,24,32,0.75)";
-        const labelW = ctx.measureText(label).width + 8;
-        ctx.fillRect(Math.max(x1, x2) + 4, y - 8, labelW, 14);
-        ctx.fillStyle = drawing.style.strokeColor;
-        ctx.fillText(label, Math.max(x1, x2) + 8, y + 3);
       }
-
-      ctx.setLineDash([]);
-      drawSelectionHandles(drawing, selected);
       return;
     }
 
-    if (drawing.tool === "brush" && p.length > 1) {
-      ctx.beginPath();
-      const start = p[0];
-      if (start) {
-        ctx.moveTo(start.x, start.y);
-      }
-      for (let i = 1; i < p.length; i += 1) {
-        const point = p[i];
-        if (!point) {
-          continue;
-        }
-        ctx.lineTo(point.x, point.y);
-      }
-      ctx.stroke();
-      drawSelectionHandles(drawing, selected);
-      return;
-    }
+    const height = textBoxHeight(drawing.text ?? "");
+    textEditor.style.left = `${anchor.x}px`;
+    textEditor.style.top = `${anchor.y - height}px`;
+    textEditor.style.height = `${height}px`;
+    textEditor.style.background = withOpacity(drawing.style.fillColor, 0.75);
+    textEditor.style.borderColor = withOpacity(drawing.style.strokeColor, 0.9);
+    textEditor.style.color = drawing.style.textColor;
 
-    if (drawing.tool === "text" && p[0]) {
-      drawTextBox(drawing, p[0]);
-      drawSelectionHandles(drawing, selected);
-      return;
+    if (textEditorId !== drawing.id) {
+      textEditorId = drawing.id;
+      textEditor.value = drawing.text ?? "";
+      textEditor.style.display = "block";
+      textEditor.focus();
+      textEditor.select();
     }
   };
 
-  const render = (): void => {
-    raf = 0;
-    if (!dirty) {
-      return;
-    }
-    dirty = false;
-
-    const frameStart = performance.now();
-    ctx.clearRect(0, 0, width, height);
-
-    const state = engine.getState();
-    const selected = new Set(state.selection.ids);
-
-    for (const drawing of state.drawings) {
-      drawEntity(drawing, selected.has(drawing.id));
-    }
-
-    ctx.setLineDash([]);
-    ctx.globalAlpha = 1;
-
-    if (state.selection.marquee) {
-      const start = toScreen(state.selection.marquee.start);
-      const current = toScreen(state.selection.marquee.current);
-      if (start && current) {
-        const x = Math.min(start.x, current.x);
-        const y = Math.min(start.y, current.y);
-        const w = Math.abs(current.x - start.x);
-        const h = Math.abs(current.y - start.y);
-
-        ctx.fillStyle = "rgba(42, 127, 255, 0.12)";
-        ctx.strokeStyle = "rgba(42, 127, 255, 0.82)";
-        ctx.lineWidth = 1;
-        ctx.setLineDash([4, 4]);
-        ctx.beginPath();
-        ctx.rect(x, y, w, h);
-        ctx.fill();
-        ctx.stroke();
-      }
-    }
-
+  const recordFrame = (frameStart: number, state: EngineStateView): void => {
     const frameMs = performance.now() - frameStart;
     const dt = Math.max(1, performance.now() - lastFrameAt);
     lastFrameAt = performance.now();
@@ -570,6 +430,30 @@ export function attachLightweightCharts(
     });
   };
 
+  const render = (): void => {
+    raf = 0;
+    if (!dirty) {
+      return;
+    }
+    dirty = false;
+
+    const state = engine.getState();
+    const format = labelFormatter(state.instrument);
+    container.style.cursor = state.cursor === "default" ? containerCursor : state.cursor;
+    syncTextEditor(state);
+
+    if (primitive) {
+      primitiveScene = { state, format };
+      primitive.update();
+      return;
+    }
+
+    const frameStart = performance.now();
+    ctx.clearRect(0, 0, width, height);
+    drawScene({ ctx, width, height, dpr, toScreen }, state, format);
+    recordFrame(frameStart, state);
+  };
+
   const requestRender = (): void => {
     dirty = true;
     if (raf !== 0) {
@@ -578,50 +462,141 @@ export function attachLightweightCharts(
     raf = window.requestAnimationFrame(render);
   };
 
+  // Drawing tools and in-progress interactions take every press. In cursor mode only presses on a
+  // drawing (or Shift, for an additive marquee) do, so the chart still pans from empty space.
+  const engineTakesPress = (input: PointerInput): boolean => {
+    if (engine.getActiveTool() !== "cursor" || engine.getInteractionMode() !== "idle") {
+      return true;
+    }
+    return input.shiftKey === true || engine.hitTest(input) !== null;
+  };
+
+  const releasePointer = (): void => {
+    if (container.hasPointerCapture(pointerState.activeId)) {
+      container.releasePointerCapture(pointerState.activeId);
+    }
+    pointerState.activeId = -1;
+    pointerState.lastInput = null;
+  };
+
   const onPointerDown = (event: PointerEvent): void => {
-    canvas.focus();
-    pointerState.activeId = event.pointerId;
-    canvas.setPointerCapture(event.pointerId);
+    if (event.target === textEditor) {
+      return;
+    }
+    if (pointerState.activeId !== -1) {
+      // A second finger starts a pinch: finish the drawing gesture and leave the pinch to the chart.
+      if (event.pointerType === "touch" && pointerState.lastInput) {
+        engine.pointerUp(pointerState.lastInput);
+        releasePointer();
+        requestRender();
+      }
+      return;
+    }
     const input = pointerToInput(event);
     if (!input) {
       return;
     }
+    if (!engineTakesPress(input)) {
+      pointerState.chartPress = { id: event.pointerId, x: event.clientX, y: event.clientY };
+      return;
+    }
+
+    // The chart listens to mouse and touch events; cancelling the pointerdown suppresses the
+    // compatibility mouse events, and `blockChartInput` stops the rest for this gesture.
+    event.preventDefault();
+    event.stopPropagation();
+    canvas.focus();
+    pointerState.activeId = event.pointerId;
+    pointerState.lastInput = input;
+    container.setPointerCapture(event.pointerId);
     engine.pointerDown(input);
     requestRender();
   };
 
   const onPointerMove = (event: PointerEvent): void => {
-    if (pointerState.activeId !== -1 && event.pointerId !== pointerState.activeId) {
+    if (pointerState.activeId !== -1) {
+      if (event.pointerId !== pointerState.activeId) {
+        return;
+      }
+      event.stopPropagation();
+      const input = pointerToInput(event);
+      if (!input) {
+        return;
+      }
+      pointerState.lastInput = input;
+      engine.pointerMove(input);
+      requestRender();
       return;
     }
-    const input = pointerToInput(event);
-    if (!input) {
+
+    // Hover and snap previews; the event continues to the chart for its crosshair.
+    if (pointerState.chartPress || event.pointerType === "touch" || event.target === textEditor) {
       return;
     }
-    engine.pointerMove(input);
-    requestRender();
+    const input = pointerToInput(event);
+    if (input) {
+      engine.pointerMove(input);
+    }
   };
 
   const onPointerUp = (event: PointerEvent): void => {
-    if (pointerState.activeId !== -1 && event.pointerId !== pointerState.activeId) {
+    const press = pointerState.chartPress;
+    if (press && event.pointerId === press.id) {
+      pointerState.chartPress = null;
+      // A click (not a pan) on empty space still clears the selection.
+      const moved = Math.hypot(event.clientX - press.x, event.clientY - press.y);
+      if (event.type === "pointerup" && moved < CLICK_SLOP_PX) {
+        engine.clearSelection();
+      }
       return;
     }
-    const input = pointerToInput(event);
+    if (pointerState.activeId === -1 || event.pointerId !== pointerState.activeId) {
+      return;
+    }
+    event.stopPropagation();
+    const input = pointerToInput(event) ?? pointerState.lastInput;
     if (input) {
       engine.pointerUp(input);
     }
-    pointerState.activeId = -1;
+    releasePointer();
+    requestRender();
+  };
+
+  // Keeps the chart's own mouse/touch handlers out of gestures the engine owns.
+  const blockChartInput = (event: Event): void => {
+    if (pointerState.activeId === -1 || event.target === textEditor) {
+      return;
+    }
+    event.stopPropagation();
+    if (event.type === "touchmove" && event.cancelable) {
+      event.preventDefault();
+    }
+  };
+
+  const onPointerLeave = (): void => {
+    if (pointerState.activeId === -1) {
+      engine.pointerLeave();
+    }
+  };
+
+  const onDoubleClick = (event: MouseEvent): void => {
+    if (event.target === textEditor) {
+      return;
+    }
+    const input = pointerToInput(event);
+    if (!input || !engineTakesPress(input)) {
+      return;
+    }
+    event.stopPropagation();
+    engine.doubleClick(input);
     requestRender();
   };
 
   const onKeyDown = (event: KeyboardEvent): void => {
-    engine.keyDown({
-      key: event.key,
-      shiftKey: event.shiftKey,
-      altKey: event.altKey,
-      ctrlKey: event.ctrlKey,
-      metaKey: event.metaKey
-    });
+    if (textEditorId !== null) {
+      return;
+    }
+    engine.keyDown(keyboardInput(event));
     if (event.key === "Delete" || event.key === "Backspace") {
       event.preventDefault();
     }
@@ -629,24 +604,51 @@ export function attachLightweightCharts(
   };
 
   const onKeyUp = (event: KeyboardEvent): void => {
-    engine.keyUp({
-      key: event.key,
-      shiftKey: event.shiftKey,
-      altKey: event.altKey,
-      ctrlKey: event.ctrlKey,
-      metaKey: event.metaKey
-    });
+    engine.keyUp(keyboardInput(event));
+  };
+
+  const onTextInput = (): void => {
+    if (textEditorId !== null) {
+      engine.updateText(textEditorId, textEditor.value);
+    }
+  };
+
+  const onTextKeyDown = (event: KeyboardEvent): void => {
+    // Keep chart and host shortcuts from seeing keystrokes typed into the editor.
+    event.stopPropagation();
+    if (event.key === "Escape" || (event.key === "Enter" && !event.shiftKey)) {
+      event.preventDefault();
+      engine.keyDown(keyboardInput(event));
+      requestRender();
+    }
+  };
+
+  const onTextBlur = (): void => {
+    if (textEditorId !== null) {
+      engine.commitTextEdit();
+      requestRender();
+    }
   };
 
-  canvas.addEventListener("pointerdown", onPointerDown);
-  canvas.addEventListener("pointermove", onPointerMove);
-  canvas.addEventListener("pointerup", onPointerUp);
-  canvas.addEventListener("pointercancel", onPointerUp);
+  // Input is taken from the container in the capture phase, ahead of the chart's own listeners;
+  // the overlay canvas never receives pointer events, so wheel and pinch always reach the chart.
+  container.addEventListener("pointerdown", onPointerDown, true);
+  container.addEventListener("pointermove", onPointerMove, true);
+  container.addEventListener("pointerup", onPointerUp, true);
+  container.addEventListener("pointercancel", onPointerUp, true);
+  container.addEventListener("pointerleave", onPointerLeave);
+  container.addEventListener("dblclick", onDoubleClick, true);
+  for (const type of CHART_INPUT_EVENTS) {
+    container.addEventListener(type, blockChartInput, { capture: true, passive: false });
+  }
   canvas.addEventListener("keydown", onKeyDown);
   canvas.addEventListener("keyup", onKeyUp);
+  textEditor.addEventListener("input", onTextInput);
+  textEditor.addEventListener("keydown", onTextKeyDown);
+  textEditor.addEventListener("blur", onTextBlur);
 
   const unsubscribeEngine = engine.subscribe((event) => {
-    if (event.reason !== "metrics") {
+    if (event.reason !== "metrics" || event.changes.length > 0) {
       requestRender();
     }
   });
@@ -654,11 +656,54 @@ export function attachLightweightCharts(
   const onRangeChange = (): void => requestRender();
   chart.timeScale().subscribeVisibleLogicalRangeChange?.(onRangeChange);
 
+  // Host-provided resolver and bar data win; otherwise both are derived from the series data.
+  // The series copy is read lazily, and the resolver is only replaced when bar times change.
+  const seriesData = series.data?.bind(series);
+  const dataByIndex = series.dataByIndex?.bind(series);
+  let bars: readonly SeriesBar[] | null = null;
+  let barTimes: number[] | null = null;
+  const currentBars = (): readonly SeriesBar[] => (bars ??= seriesData?.() ?? []);
+  const onDataChanged = (scope: DataChangedScope = "full"): void => {
+    bars = null;
+    if (options.timeResolver || !seriesData) {
+      return;
+    }
+    let times: number[];
+    if (scope === "update" && barTimes && dataByIndex) {
+      // A realtime update either rewrites the last bar or appends one.
+      const appended = dataByIndex(barTimes.length);
+      if (!appended) {
+        return;
+      }
+      times = [...barTimes, toUtcSeconds(appended.time)];
+    } else {
+      times = currentBars().map((bar) => toUtcSeconds(bar.time));
+      if (barTimes?.length === times.length && barTimes.every((time, i) => time === times[i])) {
+        return;
+      }
+    }
+    barTimes = times;
+    engine.setTimeResolver(createBarTimeResolver(times));
+  };
+  if (options.timeResolver) {
+    engine.setTimeResolver(options.timeResolver);
+  }
+  if (options.barData) {
+    engine.setBarDataProvider(options.barData);
+  } else if (seriesData) {
+    engine.setBarDataProvider(seriesBarData(dataByIndex ?? ((logical) => currentBars()[logical])));
+  }
+  onDataChanged();
+  series.subscribeDataChanged?.(onDataChanged);
+
   const resizeObserver = new ResizeObserver(() => {
     resizeCanvas();
   });
   resizeObserver.observe(container);
   resizeCanvas();
+  if (primitive) {
+    series.attachPrimitive?.(primitive);
+  }
   requestRender();
 
   return {
@@ -671,17 +716,31 @@ export function attachLightweightCharts(
 
       resizeObserver.disconnect();
       chart.timeScale().unsubscribeVisibleLogicalRangeChange?.(onRangeChange);
+      series.unsubscribeDataChanged?.(onDataChanged);
       unsubscribeEngine();
+      if (primitive) {
+        series.detachPrimitive?.(primitive);
+      }
 
-      canvas.removeEventListener("pointerdown", onPointerDown);
-      canvas.removeEventListener("pointermove", onPointerMove);
-      canvas.removeEventListener("pointerup", onPointerUp);
-      canvas.removeEventListener("pointercancel", onPointerUp);
+      container.removeEventListener("pointerdown", onPointerDown, true);
+      container.removeEventListener("pointermove", onPointerMove, true);
+      container.removeEventListener("pointerup", onPointerUp, true);
+      container.removeEventListener("pointercancel", onPointerUp, true);
+      container.removeEventListener("pointerleave", onPointerLeave);
+      container.removeEventListener("dblclick", onDoubleClick, true);
+      for (const type of CHART_INPUT_EVENTS) {
+        container.removeEventListener(type, blockChartInput, true);
+      }
+      container.style.cursor = containerCursor;
       canvas.removeEventListener("keydown", onKeyDown);
       canvas.removeEventListener("keyup", onKeyUp);
+      textEditor.removeEventListener("input", onTextInput);
+      textEditor.removeEventListener("keydown", onTextKeyDown);
+      textEditor.removeEventListener("blur", onTextBlur);
 
       canvas.remove();
       debugOverlay.remove();
+      textEditor.remove();
     },
     canvas
   };
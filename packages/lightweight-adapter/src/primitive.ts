@@ -0,0 +1,105 @@
+export type PrimitiveZOrder = "bottom" | "normal" | "top";
+
+export interface AxisLabel {
+  coordinate: number;
+  text: string;
+  textColor: string;
+  backColor: string;
+}
+
+interface MediaScope {
+  context: CanvasRenderingContext2D;
+  mediaSize: { width: number; height: number };
+}
+
+interface BitmapScope {
+  horizontalPixelRatio: number;
+}
+
+// Structural subset of fancy-canvas' CanvasRenderingTarget2D, as handed to pane renderers.
+export interface RenderingTargetLike {
+  useMediaCoordinateSpace: <T>(f: (scope: MediaScope) => T) => T;
+  useBitmapCoordinateSpace: <T>(f: (scope: BitmapScope) => T) => T;
+}
+
+interface AxisViewLike {
+  coordinate: () => number;
+  text: () => string;
+  textColor: () => string;
+  backColor: () => string;
+}
+
+interface PaneViewLike {
+  zOrder: () => PrimitiveZOrder;
+  renderer: () => { draw: (target: RenderingTargetLike) => void } | null;
+}
+
+// Structural subset of Lightweight Charts' ISeriesPrimitive (4.1+ and 5.x).
+export interface SeriesPrimitiveLike {
+  attached: (param: { requestUpdate: () => void }) => void;
+  detached: () => void;
+  updateAllViews: () => void;
+  paneViews: () => readonly PaneViewLike[];
+  priceAxisViews: () => readonly AxisViewLike[];
+  timeAxisViews: () => readonly AxisViewLike[];
+}
+
+export interface DrawingPrimitiveOptions {
+  zOrder: PrimitiveZOrder;
+  draw: (ctx: CanvasRenderingContext2D, width: number, height: number, dpr: number) => void;
+  axisLabels: () => { price: AxisLabel[]; time: AxisLabel[] };
+}
+
+export interface DrawingPrimitive extends SeriesPrimitiveLike {
+  update: () => void;
+}
+
+function axisView(label: AxisLabel): AxisViewLike {
+  return {
+    coordinate: () => label.coordinate,
+    text: () => label.text,
+    textColor: () => label.textColor,
+    backColor: () => label.backColor
+  };
+}
+
+/**
+ * Series primitive that paints drawings inside the series' pane (clipped to it and ordered by
+ * `zOrder` against series and price lines) and contributes price/time axis labels.
+ */
+export function createDrawingPrimitive(options: DrawingPrimitiveOptions): DrawingPrimitive {
+  let requestUpdate: (() => void) | null = null;
+  // The chart caches views by array identity, so they are only replaced in `updateAllViews`.
+  let priceViews: AxisViewLike[] = [];
+  let timeViews: AxisViewLike[] = [];
+
+  const renderer = {
+    draw(target: RenderingTargetLike): void {
+      const dpr = target.useBitmapCoordinateSpace((scope) => scope.horizontalPixelRatio);
+      target.useMediaCoordinateSpace(({ context, mediaSize }) =>
+        options.draw(context, mediaSize.width, mediaSize.height, dpr)
+      );
+    }
+  };
+  const paneViews: PaneViewLike[] = [{ zOrder: () => options.zOrder, renderer: () => renderer }];
+
+  return {
+    attached(param) {
+      requestUpdate = param.requestUpdate;
+    },
+    detached() {
+      requestUpdate = null;
+    },
+    updateAllViews() {
+      const labels = options.axisLabels();
+      priceViews = labels.price.map(axisView);
+      timeViews = labels.time.map(axisView);
+    },
+    paneViews: () => paneViews,
+    priceAxisViews: () => priceViews,
+    timeAxisViews: () => timeViews,
+    update() {
+      requestUpdate?.();
+    }
+  };
+}
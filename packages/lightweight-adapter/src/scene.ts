@@ -0,0 +1,554 @@
+import {
+  isVisibleAtResolution,
+  type DrawingEntity,
+  type DrawingPoint,
+  type EngineStateView,
+  type SnapTarget,
+  type ToolId
+} from "@tdraw-tools/core";
+import type { LabelFormatter } from "./format.js";
+import type { AxisLabel } from "./primitive.js";
+
+export interface RenderHelpers {
+  toScreen: (point: DrawingPoint) => { x: number; y: number } | null;
+  viewportWidth: number;
+  viewportHeight: number;
+  dpr: number;
+  format: LabelFormatter;
+}
+
+export type CustomCanvasRenderer = (
+  ctx: CanvasRenderingContext2D,
+  drawing: DrawingEntity,
+  helpers: RenderHelpers
+) => void;
+
+export interface SceneFrame {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  dpr: number;
+  toScreen: RenderHelpers["toScreen"];
+}
+
+export type SceneRenderer = (
+  frame: SceneFrame,
+  state: EngineStateView,
+  format: LabelFormatter
+) => void;
+
+const DASH_MAP: Record<string, number[]> = {
+  solid: [],
+  dashed: [8, 6],
+  dotted: [2, 4]
+};
+
+const SELECTION_COLOR = "#2a7fff";
+
+export const TEXT_BOX_WIDTH = 150;
+export const TEXT_LINE_HEIGHT = 14;
+
+export function textBoxHeight(text: string): number {
+  return Math.max(30, text.split(/\n/).length * TEXT_LINE_HEIGHT + 10);
+}
+
+export function withOpacity(value: string, alpha: number): string {
+  if (value.startsWith("rgba") || value.startsWith("rgb")) {
+    return value;
+  }
+  if (!value.startsWith("#")) {
+    return value;
+  }
+
+  const hex = value.slice(1);
+  if (hex.length !== 6) {
+    return value;
+  }
+
+  const r = Number.parseInt(hex.slice(0, 2), 16);
+  const g = Number.parseInt(hex.slice(2, 4), 16);
+  const b = Number.parseInt(hex.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * Axis labels for the primitive backend: horizontal/vertical line levels (when `showLabel` is
+ * set) and every point of the selected drawings and the draft.
+ */
+export function sceneAxisLabels(
+  state: EngineStateView,
+  format: LabelFormatter,
+  toScreen: RenderHelpers["toScreen"]
+): { price: AxisLabel[]; time: AxisLabel[] } {
+  const price: AxisLabel[] = [];
+  const time: AxisLabel[] = [];
+  const add = (point: DrawingPoint, color: string, axes: "price" | "time" | "both"): void => {
+    const screen = toScreen(point);
+    if (!screen) {
+      return;
+    }
+    if (axes !== "time") {
+      price.push({
+        coordinate: screen.y,
+        text: format.price(point.price),
+        textColor: "#ffffff",
+        backColor: color
+      });
+    }
+    if (axes !== "price" && point.time !== undefined) {
+      time.push({
+        coordinate: screen.x,
+        text: format.dateTime(point.time),
+        textColor: "#ffffff",
+        backColor: color
+      });
+    }
+  };
+
+  const selected = new Set(state.selection.ids);
+  for (const drawing of state.drawings) {
+    if (!drawing.visible || !isVisibleAtResolution(drawing.visibility, state.resolution)) {
+      continue;
+    }
+    const [anchor] = drawing.points;
+    if (selected.has(drawing.id)) {
+      for (const point of drawing.points) {
+        add(point, SELECTION_COLOR, "both");
+      }
+    } else if (anchor && drawing.style.showLabel && drawing.tool === "horizontal_line") {
+      add(anchor, drawing.style.strokeColor, "price");
+    } else if (anchor && drawing.style.showLabel && drawing.tool === "vertical_line") {
+      add(anchor, drawing.style.strokeColor, "time");
+    }
+  }
+  for (const point of state.draft?.points ?? []) {
+    add(point, SELECTION_COLOR, "both");
+  }
+  return { price, time };
+}
+
+/**
+ * Builds the tool renderers shared by the overlay canvas and the series-primitive backend.
+ * Each call paints one frame of `state` into the frame's context, in CSS pixels.
+ */
+export function createSceneRenderer(
+  handlesOf: (id: string) => DrawingPoint[],
+  customRenderers: Partial<Record<ToolId, CustomCanvasRenderer>>
+): SceneRenderer {
+  let ctx: CanvasRenderingContext2D;
+  let width = 0;
+  let height = 0;
+  let dpr = 1;
+  let toScreen: SceneFrame["toScreen"] = () => null;
+  let hoveredHandle: { id: string; index: number } | null = null;
+
+  const applyStyle = (drawing: DrawingEntity): void => {
+    ctx.strokeStyle = drawing.style.strokeColor;
+    ctx.fillStyle = drawing.style.fillColor;
+    ctx.lineWidth = drawing.style.lineWidth;
+    ctx.globalAlpha = drawing.style.opacity;
+    ctx.setLineDash(DASH_MAP[drawing.style.lineStyle] ?? []);
+  };
+
+  const drawArrowHead = (from: { x: number; y: number }, to: { x: number; y: number }): void => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const len = 10;
+    const spread = Math.PI / 6;
+
+    ctx.beginPath();
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - len * Math.cos(angle - spread), to.y - len * Math.sin(angle - spread));
+    ctx.lineTo(to.x - len * Math.cos(angle + spread), to.y - len * Math.sin(angle + spread));
+    ctx.closePath();
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.fill();
+  };
+
+  const extendRayToViewport = (
+    a: { x: number; y: number },
+    b: { x: number; y: number },
+    bothSides = false
+  ): { start: { x: number; y: number }; end: { x: number; y: number } } => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    if (Math.abs(dx) < 0.001 && Math.abs(dy) < 0.001) {
+      return { start: a, end: b };
+    }
+
+    const intersections: { x: number; y: number; t: number }[] = [];
+    const addPoint = (x: number, y: number, t: number): void => {
+      if (x >= 0 && x <= width && y >= 0 && y <= height) {
+        intersections.push({ x, y, t });
+      }
+    };
+
+    if (Math.abs(dx) > 0.001) {
+      const tLeft = (0 - a.x) / dx;
+      addPoint(0, a.y + tLeft * dy, tLeft);
+      const tRight = (width - a.x) / dx;
+      addPoint(width, a.y + tRight * dy, tRight);
+    }
+
+    if (Math.abs(dy) > 0.001) {
+      const tTop = (0 - a.y) / dy;
+      addPoint(a.x + tTop * dx, 0, tTop);
+      const tBottom = (height - a.y) / dy;
+      addPoint(a.x + tBottom * dx, height, tBottom);
+    }
+
+    if (intersections.length === 0) {
+      return { start: a, end: b };
+    }
+
+    if (bothSides) {
+      intersections.sort((p, q) => p.t - q.t);
+      const first = intersections[0];
+      const last = intersections[intersections.length - 1];
+      if (!first || !last) {
+        return { start: a, end: b };
+      }
+      return {
+        start: { x: first.x, y: first.y },
+        end: { x: last.x, y: last.y }
+      };
+    }
+
+    const forward = intersections.filter((item) => item.t >= 0).sort((p, q) => p.t - q.t);
+    const forwardLast = forward[forward.length - 1];
+    return {
+      start: a,
+      end: forwardLast ? { x: forwardLast.x, y: forwardLast.y } : b
+    };
+  };
+
+  const drawTextBox = (drawing: DrawingEntity, at: { x: number; y: number }): void => {
+    const text = drawing.text ?? "Text";
+    const lines = text.split(/\n/);
+    const paddingX = 8;
+    const lineHeight = TEXT_LINE_HEIGHT;
+    const boxWidth = TEXT_BOX_WIDTH;
+    const boxHeight = textBoxHeight(text);
+
+    ctx.fillStyle = withOpacity(drawing.style.fillColor, 0.75);
+    ctx.strokeStyle = withOpacity(drawing.style.strokeColor, 0.9);
+    ctx.lineWidth = 1;
+    ctx.setLineDash([]);
+
+    ctx.beginPath();
+    ctx.rect(at.x, at.y - boxHeight, boxWidth, boxHeight);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = drawing.style.textColor;
+    ctx.font = "12px 'IBM Plex Sans', 'Segoe UI', sans-serif";
+    ctx.textBaseline = "middle";
+
+    for (let i = 0; i < lines.length; i += 1) {
+      ctx.fillText(lines[i] ?? "", at.x + paddingX, at.y - boxHeight + 8 + i * lineHeight);
+    }
+  };
+
+  const drawSelectionHandles = (drawing: DrawingEntity, selected: boolean): void => {
+    if (!selected || drawing.locked) {
+      return;
+    }
+
+    for (const [index, point] of handlesOf(drawing.id).entries()) {
+      const screen = toScreen(point);
+      if (!screen) {
+        continue;
+      }
+      const hovered = hoveredHandle?.id === drawing.id && hoveredHandle.index === index;
+      ctx.beginPath();
+      ctx.arc(screen.x, screen.y, hovered ? 5.5 : 4, 0, Math.PI * 2);
+      ctx.fillStyle = "#ffffff";
+      ctx.fill();
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+    }
+  };
+
+  const drawSnapIndicator = (target: SnapTarget): void => {
+    const screen = toScreen(target.point);
+    if (!screen) {
+      return;
+    }
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = "#ff9f1a";
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    if (target.kind === "intersection") {
+      ctx.moveTo(screen.x - 5, screen.y - 5);
+      ctx.lineTo(screen.x + 5, screen.y + 5);
+      ctx.moveTo(screen.x + 5, screen.y - 5);
+      ctx.lineTo(screen.x - 5, screen.y + 5);
+    } else if (target.kind === "midpoint") {
+      ctx.moveTo(screen.x, screen.y - 6);
+      ctx.lineTo(screen.x + 6, screen.y + 5);
+      ctx.lineTo(screen.x - 6, screen.y + 5);
+      ctx.closePath();
+    } else {
+      ctx.rect(screen.x - 5, screen.y - 5, 10, 10);
+    }
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const drawEntity = (drawing: DrawingEntity, selected: boolean, format: LabelFormatter): void => {
+    if (!drawing.visible) {
+      return;
+    }
+
+    const custom = customRenderers[drawing.tool];
+    if (custom) {
+      custom(ctx, drawing, {
+        toScreen,
+        viewportWidth: width,
+        viewportHeight: height,
+        dpr,
+        format
+      });
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    applyStyle(drawing);
+    const p = drawing.points.map(toScreen);
+
+    if (drawing.tool === "horizontal_line" && p[0]) {
+      ctx.beginPath();
+      ctx.moveTo(0, p[0].y);
+      ctx.lineTo(width, p[0].y);
+      ctx.stroke();
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    if (drawing.tool === "vertical_line" && p[0]) {
+      ctx.beginPath();
+      ctx.moveTo(p[0].x, 0);
+      ctx.lineTo(p[0].x, height);
+      ctx.stroke();
+
+      const time = drawing.points[0]?.time;
+      if (drawing.style.showLabel && time !== undefined) {
+        const label = format.dateTime(time);
+        ctx.font = "11px 'IBM Plex Sans', 'Segoe UI', sans-serif";
+        const w = ctx.measureText(label).width + 10;
+        ctx.fillStyle = "rgba(16, 24, 32, 0.78)";
+        ctx.fillRect(p[0].x - w / 2, height - 20, w, 18);
+        ctx.fillStyle = "#d4e7ff";
+        ctx.textBaseline = "middle";
+        ctx.fillText(label, p[0].x - w / 2 + 5, height - 11);
+      }
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    if (
+      (drawing.tool === "trend_line" || drawing.tool === "arrow" || drawing.tool === "ruler") &&
+      p[0] &&
+      p[1]
+    ) {
+      ctx.beginPath();
+      ctx.moveTo(p[0].x, p[0].y);
+      ctx.lineTo(p[1].x, p[1].y);
+      ctx.stroke();
+
+      if (drawing.tool === "arrow") {
+        drawArrowHead(p[0], p[1]);
+      }
+
+      if (drawing.tool === "ruler") {
+        const firstPoint = drawing.points[0];
+        const secondPoint = drawing.points[1];
+        if (!firstPoint || !secondPoint) {
+          return;
+        }
+        const bars = Math.abs(secondPoint.logical - firstPoint.logical);
+        const price = secondPoint.price - firstPoint.price;
+        const parts = [format.barCount(bars), format.price(price)];
+        if (firstPoint.price !== 0) {
+          const change = price / Math.abs(firstPoint.price);
+          parts.push(`${change > 0 ? "+" : ""}${format.percent(change)}`);
+        }
+        if (firstPoint.time !== undefined && secondPoint.time !== undefined) {
+          parts.push(format.duration(secondPoint.time - firstPoint.time));
+        }
+        const label = parts.join(" • ");
+
+        ctx.font = "11px 'IBM Plex Sans', 'Segoe UI', sans-serif";
+        const w = ctx.measureText(label).width + 10;
+        const x = (p[0].x + p[1].x) / 2 - w / 2;
+        const y = (p[0].y + p[1].y) / 2 - 18;
+
+        ctx.fillStyle = "rgba(16, 24, 32, 0.78)";
+        ctx.strokeStyle = "rgba(255,255,255,0.25)";
+        ctx.lineWidth = 1;
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.rect(x, y, w, 18);
+        ctx.fill();
+        ctx.stroke();
+
+        ctx.fillStyle = "#d4e7ff";
+        ctx.textBaseline = "middle";
+        ctx.fillText(label, x + 5, y + 9);
+      }
+
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    if ((drawing.tool === "ray" || drawing.tool === "extended_line") && p[0] && p[1]) {
+      const extended = extendRayToViewport(p[0], p[1], drawing.tool === "extended_line");
+      ctx.beginPath();
+      ctx.moveTo(extended.start.x, extended.start.y);
+      ctx.lineTo(extended.end.x, extended.end.y);
+      ctx.stroke();
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    if (drawing.tool === "rectangle" && p[0] && p[1]) {
+      const x = Math.min(p[0].x, p[1].x);
+      const y = Math.min(p[0].y, p[1].y);
+      const w = Math.abs(p[1].x - p[0].x);
+      const h = Math.abs(p[1].y - p[0].y);
+
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      ctx.fill();
+      ctx.stroke();
+
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    if (drawing.tool === "fibonacci" && p[0] && p[1]) {
+      const levels = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+      const fromPrice = drawing.points[0]?.price ?? 0;
+      const toPrice = drawing.points[1]?.price ?? fromPrice;
+      const x1 = p[0].x;
+      const x2 = p[1].x;
+      const y1 = p[0].y;
+      const y2 = p[1].y;
+
+      ctx.font = "11px 'IBM Plex Sans', 'Segoe UI', sans-serif";
+      ctx.setLineDash([5, 4]);
+
+      for (const level of levels) {
+        const y = y1 + (y2 - y1) * level;
+        ctx.beginPath();
+        ctx.moveTo(Math.min(x1, x2), y);
+        ctx.lineTo(Math.max(x1, x2), y);
+        ctx.stroke();
+
+        const levelPrice = fromPrice + (toPrice - fromPrice) * level;
+        const label = `${format.percent(level)} (${format.price(levelPrice)})`;
+        ctx.fillStyle = "rgba(16,24,32,0.75)";
+        const labelW = ctx.measureText(label).width + 8;
+        ctx.fillRect(Math.max(x1, x2) + 4, y - 8, labelW, 14);
+        ctx.fillStyle = drawing.style.strokeColor;
+        ctx.fillText(label, Math.max(x1, x2) + 8, y + 3);
+      }
+
+      ctx.setLineDash([]);
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    if (drawing.tool === "brush" && p.length > 1) {
+      ctx.beginPath();
+      const start = p[0];
+      if (start) {
+        ctx.moveTo(start.x, start.y);
+      }
+      for (let i = 1; i < p.length; i += 1) {
+        const point = p[i];
+        if (!point) {
+          continue;
+        }
+        ctx.lineTo(point.x, point.y);
+      }
+      ctx.stroke();
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+
+    if (drawing.tool === "text" && p[0]) {
+      drawTextBox(drawing, p[0]);
+      drawSelectionHandles(drawing, selected);
+      return;
+    }
+  };
+
+  const drawMarquee = (marquee: NonNullable<EngineStateView["selection"]["marquee"]>): void => {
+    const start = toScreen(marquee.start);
+    const current = toScreen(marquee.current);
+    if (!start || !current) {
+      return;
+    }
+    const x = Math.min(start.x, current.x);
+    const y = Math.min(start.y, current.y);
+    const w = Math.abs(current.x - start.x);
+    const h = Math.abs(current.y - start.y);
+
+    ctx.fillStyle = "rgba(42, 127, 255, 0.12)";
+    ctx.strokeStyle = "rgba(42, 127, 255, 0.82)";
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.rect(x, y, w, h);
+    ctx.fill();
+    ctx.stroke();
+  };
+
+  return (frame, state, format) => {
+    ({ ctx, width, height, dpr, toScreen } = frame);
+    const selected = new Set(state.selection.ids);
+    hoveredHandle =
+      state.hoveredId !== null && state.hoveredHandle !== null
+        ? { id: state.hoveredId, index: state.hoveredHandle }
+        : null;
+
+    ctx.save();
+    for (const drawing of state.drawings) {
+      if (
+        drawing.id === state.editingTextId ||
+        !isVisibleAtResolution(drawing.visibility, state.resolution)
+      ) {
+        continue;
+      }
+      if (drawing.id === state.hoveredId && !selected.has(drawing.id)) {
+        // Hover highlight: a soft glow around the drawing's strokes and fills.
+        ctx.save();
+        ctx.shadowColor = "rgba(42, 127, 255, 0.75)";
+        ctx.shadowBlur = 8;
+        drawEntity(drawing, false, format);
+        ctx.restore();
+        continue;
+      }
+      drawEntity(drawing, selected.has(drawing.id), format);
+    }
+
+    if (state.draft) {
+      drawEntity(state.draft, false, format);
+    }
+
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+
+    if (state.selection.marquee) {
+      drawMarquee(state.selection.marquee);
+    }
+
+    if (state.snapTarget) {
+      drawSnapIndicator(state.snapTarget);
+    }
+    ctx.restore();
+  };
+}
@@ -1,4 +1,11 @@
-import type { DrawingEngine, DrawingEntity, DrawingPoint, ToolId } from "@tdraw-tools/core";
+import type {
+  DrawingEngine,
+  DrawingEntity,
+  DrawingPoint,
+  EngineViewport,
+  ModelBBox,
+  ToolId
+} from "@tdraw-tools/core";
 
 export type RiskCanvasRenderer = (
   ctx: CanvasRenderingContext2D,
@@ -8,6 +15,10 @@ export type RiskCanvasRenderer = (
     viewportWidth: number;
     viewportHeight: number;
     dpr: number;
+    format: {
+      price: (price: number) => string;
+      ratio: (value: number) => string;
+    };
   }
 ) => void;
 
@@ -27,6 +38,37 @@ export function registerRiskTool(
     id: RISK_TOOL_ID,
     minPoints: 2,
     maxPoints: 2,
+    handles(entity) {
+      const target = targetPoint(entity);
+      return target ? [...entity.points, target] : entity.points;
+    },
+    moveHandle(entity, handleIndex, point) {
+      const [entry, stop] = entity.points;
+      if (handleIndex !== 2 || !entry || !stop) {
+        return entity.points.map((current, index) => (index === handleIndex ? point : current));
+      }
+      // Dragging the target resizes the position around the entry, keeping its risk/reward.
+      const rr = getRiskReward(entity);
+      return [
+        entry,
+        { logical: point.logical, price: entry.price - (point.price - entry.price) / rr }
+      ];
+    },
+    bbox(entity) {
+      return riskBounds(entity);
+    },
+    bboxPaddingPx: 10,
+    hitTest(entity, point, viewport, tolerancePx) {
+      const bounds = riskBounds(entity, viewport);
+      const logicalPad = viewport.logicalPerPixel * tolerancePx;
+      const pricePad = viewport.pricePerPixel * tolerancePx;
+      const inside =
+        point.logical >= bounds.minLogical - logicalPad &&
+        point.logical <= bounds.maxLogical + logicalPad &&
+        point.price >= bounds.minPrice - pricePad &&
+        point.price <= bounds.maxPrice + pricePad;
+      return inside ? { kind: "body" } : null;
+    },
     normalize(entity) {
       return {
         ...entity,
@@ -53,6 +95,39 @@ function getRiskReward(entity: DrawingEntity): number {
   return 2;
 }
 
+function targetPoint(entity: DrawingEntity): DrawingPoint | null {
+  const [entry, stop] = entity.points;
+  if (!entry || !stop) {
+    return null;
+  }
+  return {
+    logical: stop.logical,
+    price: entry.price - (stop.price - entry.price) * getRiskReward(entity)
+  };
+}
+
+function riskBounds(entity: DrawingEntity, viewport?: EngineViewport): ModelBBox {
+  const [entry, stop] = entity.points;
+  const target = targetPoint(entity);
+  if (!entry || !stop || !target) {
+    const price = entry?.price ?? 0;
+    const logical = entry?.logical ?? 0;
+    return { minLogical: logical, maxLogical: logical, minPrice: price, maxPrice: price };
+  }
+  // The renderer draws the box at least 10px wide; without a viewport this is the model extent.
+  const minLogical = Math.min(entry.logical, stop.logical);
+  const maxLogical = Math.max(
+    Math.max(entry.logical, stop.logical),
+    minLogical + (viewport?.logicalPerPixel ?? 0) * 10
+  );
+  return {
+    minLogical,
+    maxLogical,
+    minPrice: Math.min(stop.price, target.price),
+    maxPrice: Math.max(stop.price, target.price)
+  };
+}
+
 export const riskPositionRenderer: RiskCanvasRenderer = (ctx, drawing, helpers) => {
   if (drawing.points.length < 2) {
     return;
@@ -102,7 +177,12 @@ export const riskPositionRenderer: RiskCanvasRenderer = (ctx, drawing, helpers)
   ctx.fillStyle = "#d4e7ff";
   ctx.font = "11px 'IBM Plex Sans', 'Segoe UI', sans-serif";
   ctx.textBaseline = "middle";
-  ctx.fillText(`RR ${rr.toFixed(2)}`, x + w + 12, entryY);
+  ctx.fillText(`RR ${helpers.format.ratio(rr)}`, x + w + 12, entryY);
+
+  const targetPrice = firstPoint.price - (secondPoint.price - firstPoint.price) * rr;
+  ctx.textAlign = "right";
+  ctx.fillText(helpers.format.price(targetPrice), x + w - 4, targetY - 8);
+  ctx.fillText(helpers.format.price(secondPoint.price), x + w - 4, stopY + 8);
 
   ctx.restore();
 };
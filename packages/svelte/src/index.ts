@@ -1,6 +1,7 @@
-import { writable, type Readable } from "svelte/store";
+import { derived, writable, type Readable } from "svelte/store";
 import type {
   DrawingEngine,
+  DrawingStyle,
   EngineEvent,
   EngineStateView,
   PointerInput,
@@ -9,29 +10,62 @@ import type {
 
 export interface DrawingController {
   state: Readable<EngineStateView>;
+  selectionStyle: Readable<Partial<DrawingStyle> | null>;
   setTool: (tool: ToolId) => void;
+  setDocument: (key: string) => void;
+  setStyle: (style: Partial<DrawingStyle>) => void;
+  setText: (text: string) => void;
   pointerDown: (input: PointerInput) => void;
   pointerMove: (input: PointerInput) => void;
   pointerUp: (input: PointerInput) => void;
+  pointerLeave: () => void;
   undo: () => void;
   redo: () => void;
   deleteSelection: () => void;
   destroy: () => void;
 }
 
+function selectionStyleOf(state: EngineStateView): Partial<DrawingStyle> | null {
+  const selectedIds = new Set(state.selection.ids);
+  const selected = state.drawings.filter((drawing) => selectedIds.has(drawing.id));
+  const first = selected[0];
+  if (!first) {
+    return null;
+  }
+
+  // Keep only the fields every selected drawing agrees on; mixed values are left out.
+  const shared = Object.entries(first.style).filter(([key, value]) =>
+    selected.every((drawing) => drawing.style[key as keyof DrawingStyle] === value)
+  );
+  return Object.fromEntries(shared) as Partial<DrawingStyle>;
+}
+
 export function createDrawingController(engine: DrawingEngine): DrawingController {
   const store = writable<EngineStateView>(engine.getState());
   const unsubscribe = engine.subscribe((event: EngineEvent) => {
-    store.set(event.state);
+    // Metrics-only ticks would rebuild the whole view every frame; skip them.
+    if (event.reason !== "metrics" || event.changes.length > 0) {
+      store.set(event.state);
+    }
   });
 
   return {
     state: {
       subscribe: store.subscribe
     },
+    selectionStyle: derived(store, selectionStyleOf),
     setTool(tool) {
       engine.setTool(tool);
     },
+    setDocument(key) {
+      engine.setDocument(key);
+    },
+    setStyle(style) {
+      engine.setStyle(engine.getSelectedIds(), style);
+    },
+    setText(text) {
+      engine.setText(engine.getSelectedIds(), text);
+    },
     pointerDown(input) {
       engine.pointerDown(input);
     },
@@ -41,6 +75,9 @@ export function createDrawingController(engine: DrawingEngine): DrawingControlle
     pointerUp(input) {
       engine.pointerUp(input);
     },
+    pointerLeave() {
+      engine.pointerLeave();
+    },
     undo() {
       engine.undo();
     },